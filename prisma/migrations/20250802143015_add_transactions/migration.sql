@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "lastSyncedBlock" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "blockNumber" INTEGER NOT NULL,
+    "timeStamp" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "gas" TEXT NOT NULL,
+    "gasPrice" TEXT NOT NULL,
+
+    CONSTRAINT "transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_userId_blockNumber_idx" ON "public"."transactions"("userId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_userId_hash_key" ON "public"."transactions"("userId", "hash");
+
+-- AddForeignKey
+ALTER TABLE "public"."transactions" ADD CONSTRAINT "transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "scoringVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."scoring_configs" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "weights" JSONB NOT NULL,
+    "logTransforms" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "scoring_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "scoring_configs_version_key" ON "public"."scoring_configs"("version");
+
+-- Seed the original hardcoded weights as version 1
+INSERT INTO "public"."scoring_configs" ("id", "version", "isActive", "description", "weights", "logTransforms")
+VALUES (
+    'scoring_config_v1',
+    1,
+    true,
+    'Original launch weights',
+    '{"volume": 0.25, "gas": 0.2, "transactions": 0.15, "nft": 0.2, "daysActive": 0.1, "streak": 0.05, "day1Bonus": 0.05}',
+    '{"volume": true, "gas": true, "transactions": false, "nft": true, "daysActive": false, "streak": false}'
+);
+
+-- Existing scores were produced by version 1
+UPDATE "public"."users" SET "scoringVersion" = 1;
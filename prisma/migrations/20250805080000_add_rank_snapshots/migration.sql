@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "public"."rank_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "rank" INTEGER NOT NULL,
+    "totalScore" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "rank_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rank_snapshots_date_idx" ON "public"."rank_snapshots"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rank_snapshots_userId_date_key" ON "public"."rank_snapshots"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."rank_snapshots" ADD CONSTRAINT "rank_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
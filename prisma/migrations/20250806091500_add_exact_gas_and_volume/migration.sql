@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "gasSpentWei" TEXT NOT NULL DEFAULT '0',
+ADD COLUMN     "totalVolumeWei" TEXT NOT NULL DEFAULT '0';
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "effectiveGasPrice" TEXT,
+ADD COLUMN     "gasUsed" TEXT;
+
+-- Stored transactions have no gasUsed, so drop them and reset the sync
+-- cursor; each wallet re-fetches its full history on its next lookup
+DELETE FROM "public"."transactions";
+UPDATE "public"."users" SET "lastSyncedBlock" = NULL;
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "failedGasSpentMON" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "failedGasSpentWei" TEXT NOT NULL DEFAULT '0',
+ADD COLUMN     "failedTxCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "isError" BOOLEAN NOT NULL DEFAULT false;
+
+-- Stored transactions don't know whether they reverted, so drop them and
+-- reset the sync cursor; each wallet re-fetches its history on next lookup
+DELETE FROM "public"."transactions";
+UPDATE "public"."users" SET "lastSyncedBlock" = NULL;
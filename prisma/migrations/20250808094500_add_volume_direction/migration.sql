@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "netVolume" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "receivedVolume" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "receivedVolumeWei" TEXT NOT NULL DEFAULT '0',
+ADD COLUMN     "sentVolume" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "sentVolumeWei" TEXT NOT NULL DEFAULT '0';
+
+-- AlterTable
+ALTER TABLE "public"."scoring_configs" ADD COLUMN     "volumeSource" TEXT NOT NULL DEFAULT 'total';
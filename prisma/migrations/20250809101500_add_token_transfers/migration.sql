@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "lastTokenSyncedBlock" INTEGER,
+ADD COLUMN     "tokenScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "tokenTransferCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "uniqueTokens" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."token_transfers" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "transferId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "logIndex" TEXT,
+    "blockNumber" INTEGER NOT NULL,
+    "timeStamp" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "contractAddress" TEXT NOT NULL,
+    "tokenName" TEXT NOT NULL,
+    "tokenSymbol" TEXT NOT NULL,
+    "tokenDecimal" INTEGER NOT NULL,
+
+    CONSTRAINT "token_transfers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "token_transfers_userId_blockNumber_idx" ON "public"."token_transfers"("userId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "token_transfers_userId_transferId_key" ON "public"."token_transfers"("userId", "transferId");
+
+-- AddForeignKey
+ALTER TABLE "public"."token_transfers" ADD CONSTRAINT "token_transfers_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "lastInternalSyncedBlock" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."internal_transactions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "internalId" TEXT NOT NULL,
+    "hash" TEXT NOT NULL,
+    "traceId" TEXT,
+    "blockNumber" INTEGER NOT NULL,
+    "timeStamp" INTEGER NOT NULL,
+    "from" TEXT NOT NULL,
+    "to" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "isError" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "internal_transactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "internal_transactions_userId_blockNumber_idx" ON "public"."internal_transactions"("userId", "blockNumber");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "internal_transactions_userId_internalId_key" ON "public"."internal_transactions"("userId", "internalId");
+
+-- AddForeignKey
+ALTER TABLE "public"."internal_transactions" ADD CONSTRAINT "internal_transactions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "distinctProtocols" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "protocolScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."contract_labels" (
+    "address" TEXT NOT NULL,
+    "protocol" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'seed',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "contract_labels_pkey" PRIMARY KEY ("address")
+);
+
+-- CreateIndex
+CREATE INDEX "contract_labels_protocol_idx" ON "public"."contract_labels"("protocol");
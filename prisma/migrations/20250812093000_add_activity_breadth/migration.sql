@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."transactions" ADD COLUMN     "contractAddress" TEXT,
+ADD COLUMN     "methodId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "contractScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "contractsDeployed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "counterpartyScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "deploymentScore" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "uniqueContracts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "uniqueCounterparties" INTEGER NOT NULL DEFAULT 0;
+
+-- Stored transactions have no call data selector, so contract calls can't
+-- be told apart; drop them and reset the sync cursor so each wallet
+-- re-fetches its history on its next lookup
+DELETE FROM "public"."transactions";
+UPDATE "public"."users" SET "lastSyncedBlock" = NULL;
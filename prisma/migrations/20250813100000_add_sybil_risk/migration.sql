@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "fundingSource" TEXT,
+ADD COLUMN     "isFlagged" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "riskReasons" JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN     "riskScore" DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- CreateIndex
+CREATE INDEX "users_fundingSource_idx" ON "public"."users"("fundingSource");
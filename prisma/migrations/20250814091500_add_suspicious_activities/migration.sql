@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "public"."suspicious_activities" (
+    "id" TEXT NOT NULL,
+    "walletAddress" TEXT NOT NULL,
+    "collection" TEXT,
+    "reason" TEXT NOT NULL,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "suspicious_activities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "suspicious_activities_walletAddress_idx" ON "public"."suspicious_activities"("walletAddress");
+
+-- CreateIndex
+CREATE INDEX "suspicious_activities_createdAt_idx" ON "public"."suspicious_activities"("createdAt");
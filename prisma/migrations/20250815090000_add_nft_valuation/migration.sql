@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "nftErc1155Discount" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "nftValuationStrategy" TEXT NOT NULL DEFAULT 'floorSale7d';
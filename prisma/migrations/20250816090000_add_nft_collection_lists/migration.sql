@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "nftCollections" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "public"."nft_collection_lists" (
+    "contractAddress" TEXT NOT NULL,
+    "list" TEXT NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "nft_collection_lists_pkey" PRIMARY KEY ("contractAddress")
+);
+
+-- CreateIndex
+CREATE INDEX "users_nftCollections_idx" ON "public"."users" USING GIN ("nftCollections");
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "public"."nft_holdings_snapshots" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "totalValue" DOUBLE PRECISION NOT NULL,
+    "collections" JSONB NOT NULL,
+    "valuationStrategy" TEXT NOT NULL,
+    "erc1155Discount" BOOLEAN NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "nft_holdings_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "nft_holdings_snapshots_date_idx" ON "public"."nft_holdings_snapshots"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nft_holdings_snapshots_userId_date_key" ON "public"."nft_holdings_snapshots"("userId", "date");
+
+-- AddForeignKey
+ALTER TABLE "public"."nft_holdings_snapshots" ADD CONSTRAINT "nft_holdings_snapshots_userId_fkey" FOREIGN KEY ("userId") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
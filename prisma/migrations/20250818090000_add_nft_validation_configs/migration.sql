@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "nftValidationVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "public"."nft_validation_configs" (
+    "id" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "description" TEXT,
+    "thresholds" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "nft_validation_configs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "nft_validation_configs_version_key" ON "public"."nft_validation_configs"("version");
+
+-- Seed the original hardcoded thresholds as version 1
+INSERT INTO "public"."nft_validation_configs" ("id", "version", "isActive", "description", "thresholds")
+VALUES (
+    'nft_validation_config_v1',
+    1,
+    true,
+    'Original launch thresholds',
+    '{"minFloorPrice": 0.001, "maxHoldingsMultiplier": 1000, "minTradingVolume": 0.01, "suspiciousHoldingsThreshold": 10000, "minCollectionSize": 10, "maxValuePerCollection": 1000000, "erc1155SuspiciousThreshold": 10000, "maxTotalValue": 10000000}'
+);
+
+-- Existing bag values were validated with version 1
+UPDATE "public"."users" SET "nftValidationVersion" = 1;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "public"."suspicious_activities" ADD COLUMN     "dedupeKey" TEXT;
+
+-- Keep only the first occurrence of each repeated issue
+DELETE FROM "public"."suspicious_activities" AS "later"
+USING "public"."suspicious_activities" AS "earlier"
+WHERE "later"."walletAddress" = "earlier"."walletAddress"
+  AND "later"."collection" IS NOT DISTINCT FROM "earlier"."collection"
+  AND "later"."reason" = "earlier"."reason"
+  AND ("later"."details"->>'configVersion') IS NOT DISTINCT FROM ("earlier"."details"->>'configVersion')
+  AND ("later"."createdAt", "later"."id") > ("earlier"."createdAt", "earlier"."id");
+
+-- Backfill the key the same way src/lib/suspiciousActivity.ts builds it
+UPDATE "public"."suspicious_activities"
+SET "dedupeKey" = concat_ws('|', "walletAddress", coalesce("collection", ''), "reason", coalesce("details"->>'configVersion', ''));
+
+ALTER TABLE "public"."suspicious_activities" ALTER COLUMN "dedupeKey" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "suspicious_activities_dedupeKey_key" ON "public"."suspicious_activities"("dedupeKey");
@@ -0,0 +1,234 @@
+/**
+ * Fixture-driven stand-in for the Etherscan and Magic Eden APIs
+ * Usage: yarn mock:server, then start the app with
+ *   ETHERSCAN_BASE_URL=http://localhost:4000 ETHERSCAN_API_KEY=mock
+ *   MAGIC_EDEN_BASE_URL=http://localhost:4000
+ * Fixtures live in scripts/fixtures, one JSON file per wallet.
+ */
+import { createServer, ServerResponse } from "http";
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import {
+  EtherscanInternalTx,
+  EtherscanResponse,
+  EtherscanTokenTx,
+  EtherscanTx,
+} from "@/types";
+
+interface TransactionGenerator {
+  count: number;
+  fromBlock: number;
+  startTimestamp: number;
+  secondsBetween: number;
+  to: string;
+  value: string;
+  gas: string;
+  gasUsed: string;
+  gasPrice: string;
+}
+
+interface WalletFixture {
+  address: string;
+  description: string;
+  /** Explicit transactions, in any order */
+  transactions?: EtherscanTx[];
+  /** Deterministically generated transactions, one per block */
+  generate?: TransactionGenerator;
+  /** Fixed txlist response, e.g. "No transactions found" */
+  etherscan?: EtherscanResponse;
+  /** Internal transactions served by txlistinternal, in any order */
+  internalTransactions?: EtherscanInternalTx[];
+  /** ERC-20 transfers served by tokentx, in any order */
+  tokenTransfers?: EtherscanTokenTx[];
+  /** Number of requests per action answered with a rate-limit error first */
+  rateLimitedRequests?: number;
+  /** Magic Eden user collections */
+  collections: unknown[];
+}
+
+type LoadedFixture = WalletFixture & {
+  txs: EtherscanTx[];
+  internalTxs: EtherscanInternalTx[];
+  tokenTxs: EtherscanTokenTx[];
+};
+
+type AccountAction = "txlist" | "txlistinternal" | "tokentx";
+
+/**
+ * Sort fixture records oldest first
+ */
+function byBlock<T extends { blockNumber: string }>(records: T[] = []): T[] {
+  return [...records].sort(
+    (a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber)
+  );
+}
+
+const PORT = parseInt(process.env.MOCK_SERVER_PORT || "4000");
+const FIXTURES_DIR = path.join(__dirname, "fixtures");
+const MAX_OFFSET = 10000;
+
+/**
+ * Expand a fixture's generated and explicit transactions, oldest first
+ */
+function buildTransactions(fixture: WalletFixture): EtherscanTx[] {
+  const transactions = [...(fixture.transactions || [])];
+  const generator = fixture.generate;
+
+  if (generator) {
+    for (let i = 0; i < generator.count; i++) {
+      transactions.push({
+        hash: `0x${fixture.address.slice(2, 26)}${i
+          .toString(16)
+          .padStart(40, "0")}`,
+        from: fixture.address,
+        to: generator.to,
+        value: generator.value,
+        gas: generator.gas,
+        gasUsed: generator.gasUsed,
+        gasPrice: generator.gasPrice,
+        timeStamp: String(
+          generator.startTimestamp + i * generator.secondsBetween
+        ),
+        blockNumber: String(generator.fromBlock + i),
+      });
+    }
+  }
+
+  return transactions.sort(
+    (a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber)
+  );
+}
+
+/**
+ * Load every wallet fixture, keyed by lowercase address
+ */
+function loadFixtures(): Map<string, LoadedFixture> {
+  const fixtures = new Map<string, LoadedFixture>();
+
+  readdirSync(FIXTURES_DIR)
+    .filter((file) => file.endsWith(".json"))
+    .forEach((file) => {
+      const fixture: WalletFixture = JSON.parse(
+        readFileSync(path.join(FIXTURES_DIR, file), "utf8")
+      );
+      fixtures.set(fixture.address.toLowerCase(), {
+        ...fixture,
+        txs: buildTransactions(fixture),
+        internalTxs: byBlock(fixture.internalTransactions),
+        tokenTxs: byBlock(fixture.tokenTransfers),
+      });
+      console.log(`Loaded ${file}: ${fixture.description}`);
+    });
+
+  return fixtures;
+}
+
+const fixtures = loadFixtures();
+const accountRequests = new Map<string, number>();
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Etherscan-compatible txlist, txlistinternal and tokentx (also served at
+ * /api for the indexer provider)
+ */
+function handleAccountAction(
+  res: ServerResponse,
+  action: AccountAction,
+  searchParams: URLSearchParams
+) {
+  const address = (searchParams.get("address") || "").toLowerCase();
+  const startBlock = parseInt(searchParams.get("startblock") || "0");
+  const offset = Math.min(
+    parseInt(searchParams.get("offset") || String(MAX_OFFSET)),
+    MAX_OFFSET
+  );
+  const fixture = fixtures.get(address);
+
+  const requestKey = `${action}:${address}`;
+  const requestCount = (accountRequests.get(requestKey) || 0) + 1;
+  accountRequests.set(requestKey, requestCount);
+
+  if (
+    fixture?.rateLimitedRequests &&
+    requestCount <= fixture.rateLimitedRequests
+  ) {
+    return sendJson(res, 200, {
+      status: "0",
+      message: "NOTOK",
+      result: "Max rate limit reached",
+    });
+  }
+
+  if (action === "txlist" && fixture?.etherscan) {
+    return sendJson(res, 200, fixture.etherscan);
+  }
+
+  const recordsByAction: Record<AccountAction, { blockNumber: string }[]> = {
+    txlist: fixture?.txs || [],
+    txlistinternal: fixture?.internalTxs || [],
+    tokentx: fixture?.tokenTxs || [],
+  };
+  const records = recordsByAction[action];
+  const result = records
+    .filter((tx) => parseInt(tx.blockNumber) >= startBlock)
+    .slice(0, offset);
+
+  if (result.length === 0) {
+    return sendJson(res, 200, {
+      status: "0",
+      message: "No transactions found",
+      result: [],
+    });
+  }
+
+  sendJson(res, 200, { status: "1", message: "OK", result });
+}
+
+/**
+ * Magic Eden user collections
+ */
+function handleCollections(
+  res: ServerResponse,
+  address: string,
+  searchParams: URLSearchParams
+) {
+  const offset = parseInt(searchParams.get("offset") || "0");
+  const limit = parseInt(searchParams.get("limit") || "20");
+  const collections = fixtures.get(address.toLowerCase())?.collections || [];
+
+  sendJson(res, 200, {
+    collections: collections.slice(offset, offset + limit),
+  });
+}
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || "/", `http://localhost:${PORT}`);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  const action = url.searchParams.get("action");
+  if (
+    (url.pathname === "/v2/api" || url.pathname === "/api") &&
+    (action === "txlist" ||
+      action === "txlistinternal" ||
+      action === "tokentx")
+  ) {
+    return handleAccountAction(res, action, url.searchParams);
+  }
+
+  const collectionsMatch = url.pathname.match(
+    /^\/v3\/rtp\/[^/]+\/users\/([^/]+)\/collections\/v3$/
+  );
+  if (collectionsMatch) {
+    return handleCollections(res, collectionsMatch[1], url.searchParams);
+  }
+
+  sendJson(res, 404, { error: `No mock for ${url.pathname}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock Etherscan/Magic Eden server listening on :${PORT}`);
+});
@@ -0,0 +1,34 @@
+/**
+ * Recompute every user's scores against the current population
+ * Usage: yarn db:rescore [batchSize]
+ */
+import { prisma } from "@/lib/prisma";
+import { claimJobRun } from "@/lib/jobs";
+import { RESCORE_JOB_NAME, rescoreAllUsers } from "@/lib/rescoring";
+
+async function main() {
+  const batchSize = parseInt(process.argv[2] || "500");
+
+  if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 5000) {
+    console.error("Invalid batch size: expected a whole number from 1 to 5000");
+    process.exitCode = 1;
+    return;
+  }
+
+  const run = await claimJobRun(RESCORE_JOB_NAME);
+  if (!run) {
+    console.error("Rescoring is already running, aborting");
+    process.exitCode = 1;
+    return;
+  }
+
+  const rescored = await rescoreAllUsers(batchSize, run);
+  console.log(`Done: ${rescored} users rescored`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Rescoring failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,36 @@
+/**
+ * Load contract labels from a JSON file, keeping labels edited by admins
+ * Usage: yarn db:seed-labels [file], defaulting to prisma/contract-labels.json
+ */
+import { readFileSync } from "fs";
+import path from "path";
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { contractLabelSchema, seedContractLabels } from "@/lib/contractLabels";
+
+async function main() {
+  const file =
+    process.argv[2] ||
+    path.join(__dirname, "..", "prisma", "contract-labels.json");
+  const parsed = z
+    .array(contractLabelSchema)
+    .safeParse(JSON.parse(readFileSync(file, "utf8")));
+
+  if (!parsed.success) {
+    console.error(`Invalid contract labels in ${file}:`, parsed.error.issues);
+    process.exitCode = 1;
+    return;
+  }
+
+  const { written, skipped } = await seedContractLabels(parsed.data);
+  console.log(
+    `Done: ${written} labels seeded, ${skipped} admin-edited labels kept`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error("Seeding contract labels failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
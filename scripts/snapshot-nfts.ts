@@ -0,0 +1,25 @@
+/**
+ * Re-fetch and record today's NFT holdings for every wallet holding NFTs
+ * Usage: yarn db:snapshot-nfts (run once a day, e.g. from cron)
+ */
+import { prisma } from "@/lib/prisma";
+import { isJobRunning } from "@/lib/jobs";
+import { NFT_SNAPSHOT_JOB_NAME, snapshotNFTHoldings } from "@/lib/nftHistory";
+
+async function main() {
+  if (await isJobRunning(NFT_SNAPSHOT_JOB_NAME)) {
+    console.error("NFT snapshot is already running, aborting");
+    process.exitCode = 1;
+    return;
+  }
+
+  const snapshotted = await snapshotNFTHoldings();
+  console.log(`Done: ${snapshotted} wallets snapshotted`);
+}
+
+main()
+  .catch((error) => {
+    console.error("NFT snapshot failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,25 @@
+/**
+ * Record today's rank and total score for every wallet
+ * Usage: yarn db:snapshot-ranks (run once a day, e.g. from cron)
+ */
+import { prisma } from "@/lib/prisma";
+import { isJobRunning } from "@/lib/jobs";
+import { RANK_SNAPSHOT_JOB_NAME, snapshotRanks } from "@/lib/rankHistory";
+
+async function main() {
+  if (await isJobRunning(RANK_SNAPSHOT_JOB_NAME)) {
+    console.error("Rank snapshot is already running, aborting");
+    process.exitCode = 1;
+    return;
+  }
+
+  const snapshotted = await snapshotRanks();
+  console.log(`Done: ${snapshotted} ranks snapshotted`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Rank snapshot failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
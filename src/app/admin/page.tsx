@@ -0,0 +1,22 @@
+import type { Metadata } from "next";
+import { MainLayout } from "@/components/templates/MainLayout";
+import { SuspiciousActivityAdmin } from "@/components/organisms/SuspiciousActivityAdmin";
+
+export const metadata: Metadata = {
+  title: "Admin - Monstats",
+  robots: { index: false },
+};
+
+/**
+ * Admin page for reviewing suspicious activity
+ * @returns Admin page
+ */
+export default function AdminPage() {
+  return (
+    <MainLayout>
+      <div className="space-y-8 pb-16 animate-fade-in">
+        <SuspiciousActivityAdmin />
+      </div>
+    </MainLayout>
+  );
+}
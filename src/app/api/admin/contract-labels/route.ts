@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import {
+  contractLabelSchema,
+  deleteContractLabel,
+  listContractLabels,
+  upsertContractLabel,
+} from "@/lib/contractLabels";
+
+/**
+ * GET handler for /api/admin/contract-labels
+ * @param request - Next.js request object
+ * @returns Every contract label, grouped by protocol
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const labels = await listContractLabels();
+
+    return NextResponse.json({ labels });
+  } catch (error) {
+    console.error("Error fetching contract labels:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch contract labels" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/contract-labels
+ * Creates or updates a label from { address, protocol, category }
+ * @param request - Next.js request object
+ * @returns The stored label
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = contractLabelSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid contract label", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const label = await upsertContractLabel(parsed.data);
+
+    return NextResponse.json({ label });
+  } catch (error) {
+    console.error("Error saving contract label:", error);
+    return NextResponse.json(
+      { error: "Failed to save contract label" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for /api/admin/contract-labels?address=0x...
+ * @param request - Next.js request object
+ * @returns Whether the label was deleted
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const address = searchParams.get("address");
+  if (!address) {
+    return NextResponse.json(
+      { error: "Contract address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteContractLabel(address);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Contract label not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting contract label:", error);
+    return NextResponse.json(
+      { error: "Failed to delete contract label" },
+      { status: 500 }
+    );
+  }
+}
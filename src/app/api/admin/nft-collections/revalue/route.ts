@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import { getLastJobRun, isJobRunning } from "@/lib/jobs";
+import { listNFTCollectionLists } from "@/lib/nftCollectionLists";
+import { NFT_REVALUE_JOB_NAME, revalueNFTHolders } from "@/lib/nftRevaluation";
+
+// Zod schema for the collections to re-value; defaults to every listed one
+const revalueRequestSchema = z.object({
+  contractAddresses: z
+    .array(z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid contract address"))
+    .min(1)
+    .optional(),
+});
+
+/**
+ * GET handler for /api/admin/nft-collections/revalue
+ * @param request - Next.js request object
+ * @returns Status of the most recent re-valuation run
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const lastRun = await getLastJobRun(NFT_REVALUE_JOB_NAME);
+
+    return NextResponse.json({ lastRun });
+  } catch (error) {
+    console.error("Error fetching NFT re-valuation status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch NFT re-valuation status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/nft-collections/revalue
+ * Re-values, in the background, every wallet holding one of
+ * { contractAddresses }, or one of the listed collections if omitted
+ * @param request - Next.js request object
+ * @returns Accepted response while the job runs
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const parsed = revalueRequestSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid re-valuation request", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const contractAddresses =
+      parsed.data.contractAddresses ??
+      (await listNFTCollectionLists()).map(
+        (collection) => collection.contractAddress
+      );
+
+    if (contractAddresses.length === 0) {
+      return NextResponse.json(
+        { error: "No NFT collections to re-value" },
+        { status: 400 }
+      );
+    }
+
+    if (await isJobRunning(NFT_REVALUE_JOB_NAME)) {
+      return NextResponse.json(
+        { error: "NFT re-valuation is already running" },
+        { status: 409 }
+      );
+    }
+
+    // Don't await - the job records its own progress and outcome
+    revalueNFTHolders(contractAddresses).catch((error) => {
+      console.error("Background NFT re-valuation failed:", error);
+    });
+
+    return NextResponse.json(
+      {
+        status: "started",
+        contractAddresses,
+        startedAt: new Date().toISOString(),
+      },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error starting NFT re-valuation:", error);
+    return NextResponse.json(
+      { error: "Failed to start NFT re-valuation" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import {
+  deleteNFTCollectionList,
+  listNFTCollectionLists,
+  nftCollectionListSchema,
+  upsertNFTCollectionList,
+} from "@/lib/nftCollectionLists";
+
+/**
+ * GET handler for /api/admin/nft-collections
+ * @param request - Next.js request object
+ * @returns Every allowed and denied NFT collection
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const collections = await listNFTCollectionLists();
+
+    return NextResponse.json({ collections });
+  } catch (error) {
+    console.error("Error fetching NFT collection lists:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch NFT collection lists" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/nft-collections
+ * Adds a collection to a list from { contractAddress, list, reason? }
+ * @param request - Next.js request object
+ * @returns The stored list entry
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = nftCollectionListSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        {
+          error: "Invalid NFT collection list entry",
+          issues: parsed.error.issues,
+        },
+        { status: 400 }
+      );
+    }
+
+    const collection = await upsertNFTCollectionList(parsed.data);
+
+    return NextResponse.json({ collection });
+  } catch (error) {
+    console.error("Error saving NFT collection list entry:", error);
+    return NextResponse.json(
+      { error: "Failed to save NFT collection list entry" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE handler for /api/admin/nft-collections?contractAddress=0x...
+ * @param request - Next.js request object
+ * @returns Whether the collection was removed from its list
+ */
+export async function DELETE(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const contractAddress = searchParams.get("contractAddress");
+  if (!contractAddress) {
+    return NextResponse.json(
+      { error: "Contract address is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const deleted = await deleteNFTCollectionList(contractAddress);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "NFT collection is not listed" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Error deleting NFT collection list entry:", error);
+    return NextResponse.json(
+      { error: "Failed to delete NFT collection list entry" },
+      { status: 500 }
+    );
+  }
+}
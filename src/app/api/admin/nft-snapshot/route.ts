@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import { getLastJobRun, isJobRunning } from "@/lib/jobs";
+import { NFT_SNAPSHOT_JOB_NAME, snapshotNFTHoldings } from "@/lib/nftHistory";
+
+/**
+ * GET handler for /api/admin/nft-snapshot
+ * @param request - Next.js request object
+ * @returns Status of the most recent NFT snapshot run
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const lastRun = await getLastJobRun(NFT_SNAPSHOT_JOB_NAME);
+
+    return NextResponse.json({ lastRun });
+  } catch (error) {
+    console.error("Error fetching NFT snapshot status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch NFT snapshot status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/nft-snapshot
+ * Re-fetches and snapshots every NFT holder's holdings in the background.
+ * Meant to be called once a day by a scheduler.
+ * @param request - Next.js request object
+ * @returns Accepted response while the job runs
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    if (await isJobRunning(NFT_SNAPSHOT_JOB_NAME)) {
+      return NextResponse.json(
+        { error: "NFT snapshot is already running" },
+        { status: 409 }
+      );
+    }
+
+    // Don't await - the job records its own progress and outcome
+    snapshotNFTHoldings().catch((error) => {
+      console.error("Background NFT snapshot failed:", error);
+    });
+
+    return NextResponse.json(
+      { status: "started", startedAt: new Date().toISOString() },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error starting NFT snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to start NFT snapshot" },
+      { status: 500 }
+    );
+  }
+}
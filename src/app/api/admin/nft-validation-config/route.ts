@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import {
+  activateNFTValidationConfig,
+  createNFTValidationConfig,
+  createNFTValidationConfigSchema,
+  listNFTValidationConfigs,
+} from "@/lib/nftValidationConfig";
+
+// Zod schema for activating an existing version
+const activateNFTValidationConfigSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+/**
+ * GET handler for /api/admin/nft-validation-config
+ * @param request - Next.js request object
+ * @returns Every stored NFT validation version, newest first
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const configs = await listNFTValidationConfigs();
+    const active = configs.find((config) => config.isActive) || null;
+
+    return NextResponse.json({
+      activeVersion: active?.version ?? null,
+      configs,
+    });
+  } catch (error) {
+    console.error("Error fetching NFT validation configs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch NFT validation configs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/nft-validation-config
+ * Creates a new NFT validation version from { thresholds, description, activate }
+ * @param request - Next.js request object
+ * @returns The created NFT validation version
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = createNFTValidationConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid NFT validation config", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = await createNFTValidationConfig(parsed.data);
+
+    return NextResponse.json({ config }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating NFT validation config:", error);
+    return NextResponse.json(
+      { error: "Failed to create NFT validation config" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for /api/admin/nft-validation-config
+ * Activates an existing NFT validation version from { version }
+ * @param request - Next.js request object
+ * @returns The activated NFT validation version
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = activateNFTValidationConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid version", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = await activateNFTValidationConfig(parsed.data.version);
+
+    if (!config) {
+      return NextResponse.json(
+        { error: "NFT validation version not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ config });
+  } catch (error) {
+    console.error("Error activating NFT validation config:", error);
+    return NextResponse.json(
+      { error: "Failed to activate NFT validation config" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import { getLastJobRun, isJobRunning } from "@/lib/jobs";
+import { RANK_SNAPSHOT_JOB_NAME, snapshotRanks } from "@/lib/rankHistory";
+
+/**
+ * GET handler for /api/admin/rank-snapshot
+ * @param request - Next.js request object
+ * @returns Status of the most recent rank snapshot run
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const lastRun = await getLastJobRun(RANK_SNAPSHOT_JOB_NAME);
+
+    return NextResponse.json({ lastRun });
+  } catch (error) {
+    console.error("Error fetching rank snapshot status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rank snapshot status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/rank-snapshot
+ * Records today's rank snapshot in the background. Meant to be called
+ * once a day by a scheduler.
+ * @param request - Next.js request object
+ * @returns Accepted response while the job runs
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    if (await isJobRunning(RANK_SNAPSHOT_JOB_NAME)) {
+      return NextResponse.json(
+        { error: "Rank snapshot is already running" },
+        { status: 409 }
+      );
+    }
+
+    // Don't await - the job records its own progress and outcome
+    snapshotRanks().catch((error) => {
+      console.error("Background rank snapshot failed:", error);
+    });
+
+    return NextResponse.json(
+      { status: "started", startedAt: new Date().toISOString() },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error starting rank snapshot:", error);
+    return NextResponse.json(
+      { error: "Failed to start rank snapshot" },
+      { status: 500 }
+    );
+  }
+}
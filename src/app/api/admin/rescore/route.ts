@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import { claimJobRun, getLastJobRun } from "@/lib/jobs";
+import { RESCORE_JOB_NAME, rescoreAllUsers } from "@/lib/rescoring";
+
+/**
+ * GET handler for /api/admin/rescore
+ * @param request - Next.js request object
+ * @returns Status of the most recent rescoring run
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const lastRun = await getLastJobRun(RESCORE_JOB_NAME);
+
+    return NextResponse.json({ lastRun });
+  } catch (error) {
+    console.error("Error fetching rescoring status:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch rescoring status" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/rescore?batchSize={size}
+ * Starts a full leaderboard rescoring run in the background
+ * @param request - Next.js request object
+ * @returns Accepted response while the job runs
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const batchSize = parseInt(searchParams.get("batchSize") || "500");
+
+    if (!Number.isInteger(batchSize) || batchSize < 1 || batchSize > 5000) {
+      return NextResponse.json(
+        { error: "Invalid batch size" },
+        { status: 400 }
+      );
+    }
+
+    // Claim the run before responding, so concurrent requests can't both
+    // start one
+    const run = await claimJobRun(RESCORE_JOB_NAME);
+    if (!run) {
+      return NextResponse.json(
+        { error: "Rescoring is already running" },
+        { status: 409 }
+      );
+    }
+
+    // Don't await - the job records its own progress and outcome
+    rescoreAllUsers(batchSize, run).catch((error) => {
+      console.error("Background rescoring failed:", error);
+    });
+
+    return NextResponse.json(
+      { status: "started", startedAt: run.startedAt.toISOString() },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error("Error starting rescoring:", error);
+    return NextResponse.json(
+      { error: "Failed to start rescoring" },
+      { status: 500 }
+    );
+  }
+}
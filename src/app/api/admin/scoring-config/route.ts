@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import { claimJobRun } from "@/lib/jobs";
+import { RESCORE_JOB_NAME, rescoreAllUsers } from "@/lib/rescoring";
+import {
+  activateScoringConfig,
+  createScoringConfig,
+  createScoringConfigSchema,
+  listScoringConfigs,
+} from "@/lib/scoringConfig";
+
+// Zod schema for activating an existing version
+const activateScoringConfigSchema = z.object({
+  version: z.number().int().positive(),
+});
+
+/**
+ * Start a background rescoring run so stored scores match the new version
+ * @returns Whether a run was started
+ */
+async function startRescoring(): Promise<boolean> {
+  const run = await claimJobRun(RESCORE_JOB_NAME);
+  if (!run) {
+    return false;
+  }
+
+  rescoreAllUsers(undefined, run).catch((error) => {
+    console.error("Background rescoring failed:", error);
+  });
+  return true;
+}
+
+/**
+ * GET handler for /api/admin/scoring-config
+ * @param request - Next.js request object
+ * @returns Every stored scoring version, newest first
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const configs = await listScoringConfigs();
+    const active = configs.find((config) => config.isActive) || null;
+
+    return NextResponse.json({
+      activeVersion: active?.version ?? null,
+      configs,
+    });
+  } catch (error) {
+    console.error("Error fetching scoring configs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scoring configs" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST handler for /api/admin/scoring-config
+ * Creates a new scoring version from { weights, logTransforms, description, activate }
+ * @param request - Next.js request object
+ * @returns The created scoring version
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = createScoringConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid scoring config", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = await createScoringConfig(parsed.data);
+    const rescoringStarted = config.isActive ? await startRescoring() : false;
+
+    return NextResponse.json({ config, rescoringStarted }, { status: 201 });
+  } catch (error) {
+    console.error("Error creating scoring config:", error);
+    return NextResponse.json(
+      { error: "Failed to create scoring config" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH handler for /api/admin/scoring-config
+ * Activates an existing scoring version from { version }
+ * @param request - Next.js request object
+ * @returns The activated scoring version
+ */
+export async function PATCH(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = activateScoringConfigSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: "Invalid version", issues: parsed.error.issues },
+        { status: 400 }
+      );
+    }
+
+    const config = await activateScoringConfig(parsed.data.version);
+
+    if (!config) {
+      return NextResponse.json(
+        { error: "Scoring version not found" },
+        { status: 404 }
+      );
+    }
+
+    const rescoringStarted = await startRescoring();
+
+    return NextResponse.json({ config, rescoringStarted });
+  } catch (error) {
+    console.error("Error activating scoring config:", error);
+    return NextResponse.json(
+      { error: "Failed to activate scoring config" },
+      { status: 500 }
+    );
+  }
+}
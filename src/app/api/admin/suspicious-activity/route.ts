@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import {
+  exportSuspiciousActivitiesCsv,
+  listSuspiciousActivities,
+  suspiciousActivityQuerySchema,
+} from "@/lib/suspiciousActivity";
+
+/**
+ * GET handler for /api/admin/suspicious-activity
+ * Filters: wallet, collection, reason, from, to, page, pageSize.
+ * Add format=csv to download every matching event instead of one page.
+ * @param request - Next.js request object
+ * @returns Matching suspicious events, newest first
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = suspiciousActivityQuerySchema.safeParse(
+    Object.fromEntries(searchParams)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid filters", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    if (searchParams.get("format") === "csv") {
+      const csv = await exportSuspiciousActivitiesCsv(parsed.data);
+
+      return new NextResponse(csv, {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition":
+            'attachment; filename="suspicious-activity.csv"',
+        },
+      });
+    }
+
+    const { events, total } = await listSuspiciousActivities(parsed.data);
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        page: parsed.data.page,
+        pageSize: parsed.data.pageSize,
+        total,
+        totalPages: Math.ceil(total / parsed.data.pageSize),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching suspicious activity:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch suspicious activity" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAdminRequest, unauthorizedResponse } from "@/lib/admin";
+import {
+  countSuspiciousActivitiesByWallet,
+  suspiciousActivityQuerySchema,
+} from "@/lib/suspiciousActivity";
+
+/**
+ * GET handler for /api/admin/suspicious-activity/wallets
+ * Takes the same filters as /api/admin/suspicious-activity
+ * @param request - Next.js request object
+ * @returns Suspicious event counts per wallet, most events first
+ */
+export async function GET(request: NextRequest) {
+  if (!isAdminRequest(request)) {
+    return unauthorizedResponse();
+  }
+
+  const { searchParams } = new URL(request.url);
+  const parsed = suspiciousActivityQuerySchema.safeParse(
+    Object.fromEntries(searchParams)
+  );
+
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: "Invalid filters", issues: parsed.error.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const wallets = await countSuspiciousActivitiesByWallet(parsed.data);
+
+    return NextResponse.json({ wallets });
+  } catch (error) {
+    console.error("Error counting suspicious activity:", error);
+    return NextResponse.json(
+      { error: "Failed to count suspicious activity" },
+      { status: 500 }
+    );
+  }
+}
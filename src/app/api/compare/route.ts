@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getWalletProfile } from "@/lib/walletProfile";
+import {
+  ComparedWallet,
+  MAX_COMPARE_WALLETS,
+  MIN_COMPARE_WALLETS,
+  findMetricWinners,
+} from "@/lib/compare";
+import { parseWalletList } from "@/lib/utils";
+
+/**
+ * GET handler for /api/compare?wallets={address},{address}[,...]
+ * Compares two to four wallets using their stored data
+ * @param request - Next.js request object
+ * @returns Stats, rankings and per-metric winners for each wallet
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const wallets = parseWalletList(searchParams.get("wallets"));
+
+    if (
+      wallets.length < MIN_COMPARE_WALLETS ||
+      wallets.length > MAX_COMPARE_WALLETS
+    ) {
+      return NextResponse.json(
+        {
+          error: `Provide between ${MIN_COMPARE_WALLETS} and ${MAX_COMPARE_WALLETS} wallet addresses`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const invalid = wallets.filter(
+      (address) => !/^0x[a-fA-F0-9]{40}$/.test(address)
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid wallet address: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const profiles = await Promise.all(
+      wallets.map((address) => getWalletProfile(address))
+    );
+
+    const compared: ComparedWallet[] = [];
+    const notFound: string[] = [];
+    profiles.forEach((profile, index) => {
+      if (profile) {
+        compared.push({
+          walletAddress: profile.walletAddress,
+          stats: profile.stats,
+          ranking: profile.ranking,
+        });
+      } else {
+        notFound.push(wallets[index]);
+      }
+    });
+
+    return NextResponse.json({
+      wallets: compared,
+      notFound,
+      winners: findMetricWinners(compared),
+    });
+  } catch (error) {
+    console.error("Error comparing wallets:", error);
+    return NextResponse.json(
+      { error: "Failed to compare wallets" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/prisma";
+import { getCurrentRanks, getRankChanges } from "@/lib/rankHistory";
+import { getScoringConfig } from "@/lib/scoringConfig";
+import { ScoringWeights } from "@/lib/scoring";
 
 type UserWithMetrics = {
+  id: string;
   walletAddress: string;
   txCount: number;
   gasSpentMON: number;
   totalVolume: number;
+  sentVolume: number;
+  receivedVolume: number;
+  netVolume: number;
   nftBagValue: number;
   isDay1User: boolean;
   longestStreak: number;
   daysActive: number;
+  uniqueCounterparties: number;
+  uniqueContracts: number;
+  contractsDeployed: number;
   totalScore: number;
   volumeScore: number;
   gasScore: number;
@@ -18,10 +28,16 @@ type UserWithMetrics = {
   daysActiveScore: number;
   streakScore: number;
   day1BonusScore: number;
+  tokenScore: number;
+  protocolScore: number;
+  counterpartyScore: number;
+  contractScore: number;
+  deploymentScore: number;
+  scoringVersion: number | null;
 };
 
 // Define sort options
-type SortField = 'totalScore' | 'totalVolume' | 'gasSpentMON' | 'txCount' | 'nftBagValue' | 'daysActive' | 'longestStreak';
+type SortField = 'totalScore' | 'totalVolume' | 'sentVolume' | 'receivedVolume' | 'netVolume' | 'gasSpentMON' | 'txCount' | 'nftBagValue' | 'daysActive' | 'longestStreak' | 'uniqueCounterparties' | 'uniqueContracts' | 'contractsDeployed';
 type SortOrder = 'asc' | 'desc';
 
 export async function GET(request: NextRequest) {
@@ -34,7 +50,7 @@ export async function GET(request: NextRequest) {
     const sortOrder = (searchParams.get("sortOrder") || "desc") as SortOrder;
 
     // Validate sort parameters
-    const validSortFields: SortField[] = ['totalScore', 'totalVolume', 'gasSpentMON', 'txCount', 'nftBagValue', 'daysActive', 'longestStreak'];
+    const validSortFields: SortField[] = ['totalScore', 'totalVolume', 'sentVolume', 'receivedVolume', 'netVolume', 'gasSpentMON', 'txCount', 'nftBagValue', 'daysActive', 'longestStreak', 'uniqueCounterparties', 'uniqueContracts', 'contractsDeployed'];
     const validSortOrders: SortOrder[] = ['asc', 'desc'];
     
     if (!validSortFields.includes(sortBy)) {
@@ -55,15 +71,16 @@ export async function GET(request: NextRequest) {
     const skip = (page - 1) * pageSize;
     const take = pageSize;
 
-    // Build where clause for search
+    // Build where clause for search, hiding wallets flagged for farming
     const whereClause = search
       ? {
+          isFlagged: false,
           walletAddress: {
             contains: search,
             mode: "insensitive" as const,
           },
         }
-      : {};
+      : { isFlagged: false };
 
     // Get total count for pagination
     const totalUsers = await prisma.user.count({
@@ -79,14 +96,21 @@ export async function GET(request: NextRequest) {
       skip,
       take,
       select: {
+        id: true,
         walletAddress: true,
         txCount: true,
         gasSpentMON: true,
         totalVolume: true,
+        sentVolume: true,
+        receivedVolume: true,
+        netVolume: true,
         nftBagValue: true,
         isDay1User: true,
         longestStreak: true,
         daysActive: true,
+        uniqueCounterparties: true,
+        uniqueContracts: true,
+        contractsDeployed: true,
         totalScore: true,
         volumeScore: true,
         gasScore: true,
@@ -95,22 +119,56 @@ export async function GET(request: NextRequest) {
         daysActiveScore: true,
         streakScore: true,
         day1BonusScore: true,
+        tokenScore: true,
+        protocolScore: true,
+        counterpartyScore: true,
+        contractScore: true,
+        deploymentScore: true,
+        scoringVersion: true,
       },
     });
 
+    // Global score rank and movement since the daily snapshots
+    const currentRanks = await getCurrentRanks(
+      users.map((user: UserWithMetrics) => user.id)
+    );
+    const rankChanges = await getRankChanges(currentRanks);
+
+    // Rows scored before the last rescore keep their own version's weights,
+    // so load each version on the page once
+    const versions = Array.from(
+      new Set(users.map((user: UserWithMetrics) => user.scoringVersion))
+    );
+    const versionWeights = new Map<number | null, ScoringWeights>(
+      await Promise.all(
+        versions.map(
+          async (version) =>
+            [version, (await getScoringConfig(version)).weights] as const
+        )
+      )
+    );
+
     // Calculate user numbers (position in the current page)
     const leaderboard = users.map((user: UserWithMetrics, index: number) => ({
       walletAddress: user.walletAddress,
       userNumber: skip + index + 1, // This is the position number for display
+      rank: currentRanks.get(user.id) ?? null,
+      rankChange: rankChanges.get(user.id) ?? { day: null, week: null },
       totalScore: user.totalScore,
       metrics: {
         txCount: user.txCount,
         gasSpentMON: user.gasSpentMON,
         totalVolume: user.totalVolume,
+        sentVolume: user.sentVolume,
+        receivedVolume: user.receivedVolume,
+        netVolume: user.netVolume,
         nftBagValue: user.nftBagValue,
         isDay1User: user.isDay1User,
         longestStreak: user.longestStreak,
         daysActive: user.daysActive,
+        uniqueCounterparties: user.uniqueCounterparties,
+        uniqueContracts: user.uniqueContracts,
+        contractsDeployed: user.contractsDeployed,
         transactionHistory: [], // Empty array since we don't store it anymore
       },
       scores: {
@@ -121,8 +179,15 @@ export async function GET(request: NextRequest) {
         daysActiveScore: user.daysActiveScore,
         streakScore: user.streakScore,
         day1BonusScore: user.day1BonusScore,
+        tokenScore: user.tokenScore,
+        protocolScore: user.protocolScore,
+        counterpartyScore: user.counterpartyScore,
+        contractScore: user.contractScore,
+        deploymentScore: user.deploymentScore,
         totalScore: user.totalScore,
       },
+      scoringVersion: user.scoringVersion,
+      scoreWeights: versionWeights.get(user.scoringVersion),
     }));
 
     // Calculate pagination info
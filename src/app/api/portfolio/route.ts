@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAX_PORTFOLIO_WALLETS, MIN_PORTFOLIO_WALLETS } from "@/lib/portfolio";
+import { getPortfolioStats } from "@/lib/portfolioStats";
+import {
+  CHAIN_DATA_NOT_CONFIGURED,
+  getChainDataProviders,
+} from "@/lib/chainProviders";
+import { parseWalletList } from "@/lib/utils";
+
+/**
+ * GET handler for /api/portfolio?wallets={address},{address}[,...]
+ * Combines several wallets into one set of stats without saving anything
+ * @param request - Next.js request object
+ * @returns Combined portfolio statistics
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const wallets = parseWalletList(searchParams.get("wallets"));
+
+    if (
+      wallets.length < MIN_PORTFOLIO_WALLETS ||
+      wallets.length > MAX_PORTFOLIO_WALLETS
+    ) {
+      return NextResponse.json(
+        {
+          error: `Provide between ${MIN_PORTFOLIO_WALLETS} and ${MAX_PORTFOLIO_WALLETS} wallet addresses`,
+        },
+        { status: 400 }
+      );
+    }
+
+    const invalid = wallets.filter(
+      (address) => !/^0x[a-fA-F0-9]{40}$/.test(address)
+    );
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: `Invalid wallet address: ${invalid.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (getChainDataProviders().length === 0) {
+      return NextResponse.json(
+        { error: CHAIN_DATA_NOT_CONFIGURED },
+        { status: 503 }
+      );
+    }
+
+    const portfolio = await getPortfolioStats(wallets, request.signal);
+
+    if (!portfolio) {
+      return NextResponse.json(
+        { error: "No transactions found for these wallets" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(portfolio);
+  } catch (error) {
+    console.error("Error building portfolio stats:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,192 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ImageResponse } from "next/og";
+import { getWalletCardData } from "@/lib/walletProfile";
+import { formatWalletAddress } from "@/lib/scoring";
+
+// Prisma needs the Node.js runtime
+export const runtime = "nodejs";
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630;
+const SPARKLINE_WIDTH = 1040;
+const SPARKLINE_HEIGHT = 120;
+const SPARKLINE_DAYS = 90;
+
+/**
+ * Build SVG polyline points for a sparkline of daily transaction counts
+ * @param values - Transactions per day, oldest first
+ * @returns Space-separated "x,y" points, or null if there's nothing to plot
+ */
+function buildSparklinePoints(values: number[]): string | null {
+  if (values.length < 2) return null;
+
+  const max = Math.max(...values, 1);
+  const step = SPARKLINE_WIDTH / (values.length - 1);
+
+  return values
+    .map((value, index) => {
+      const x = index * step;
+      // Leave a little headroom so the line isn't clipped at the top
+      const y = SPARKLINE_HEIGHT - (value / max) * (SPARKLINE_HEIGHT - 8) - 4;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+}
+
+/**
+ * A single labelled stat on the card
+ */
+function CardStat({ label, value }: { label: string; value: string }) {
+  return (
+    <div style={{ display: "flex", flexDirection: "column" }}>
+      <div style={{ fontSize: 24, color: "#a1a1aa" }}>{label}</div>
+      <div style={{ fontSize: 56, fontWeight: 700, color: "#ffffff" }}>
+        {value}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * GET handler for /api/share-card/{address}
+ * Renders a PNG share card from stored data only - no chain or marketplace calls
+ * @param request - Next.js request object
+ * @param params - Route params with the wallet address
+ * @returns PNG image response
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    return NextResponse.json(
+      { error: "Invalid wallet address" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const card = await getWalletCardData(address, SPARKLINE_DAYS);
+    const sparkline = card
+      ? buildSparklinePoints(card.dailyTransactions)
+      : null;
+
+    return new ImageResponse(
+      (
+        <div
+          style={{
+            width: "100%",
+            height: "100%",
+            display: "flex",
+            flexDirection: "column",
+            justifyContent: "space-between",
+            padding: 80,
+            background: "linear-gradient(135deg, #1e1036 0%, #0a0a0f 100%)",
+            color: "#ffffff",
+          }}
+        >
+          {/* Header */}
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+            }}
+          >
+            <div style={{ display: "flex", flexDirection: "column" }}>
+              <div style={{ fontSize: 32, color: "#a78bfa", fontWeight: 700 }}>
+                Monstats
+              </div>
+              <div style={{ fontSize: 40, fontFamily: "monospace" }}>
+                {formatWalletAddress(address)}
+              </div>
+            </div>
+            {card?.isDay1User && (
+              <div
+                style={{
+                  display: "flex",
+                  padding: "12px 28px",
+                  borderRadius: 9999,
+                  background: "#eab308",
+                  color: "#1c1917",
+                  fontSize: 28,
+                  fontWeight: 700,
+                }}
+              >
+                DAY 1 OG
+              </div>
+            )}
+          </div>
+
+          {/* Stats */}
+          {card ? (
+            <div style={{ display: "flex", gap: 96 }}>
+              <CardStat
+                label="Total Score"
+                value={card.totalScore.toFixed(1)}
+              />
+              <CardStat
+                label="Position"
+                value={`#${card.ranking.rank} / ${card.ranking.totalUsers}`}
+              />
+              <CardStat
+                label="Longest Streak"
+                value={`${card.longestStreak} days`}
+              />
+            </div>
+          ) : (
+            <div style={{ display: "flex", fontSize: 48, color: "#a1a1aa" }}>
+              Not on the leaderboard yet
+            </div>
+          )}
+
+          {/* Activity sparkline */}
+          <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
+            <div style={{ fontSize: 22, color: "#a1a1aa" }}>
+              Daily transactions
+            </div>
+            {sparkline ? (
+              <svg
+                width={SPARKLINE_WIDTH}
+                height={SPARKLINE_HEIGHT}
+                viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+              >
+                <polyline
+                  points={sparkline}
+                  fill="none"
+                  stroke="#8b5cf6"
+                  strokeWidth={4}
+                  strokeLinejoin="round"
+                  strokeLinecap="round"
+                />
+              </svg>
+            ) : (
+              <div
+                style={{
+                  display: "flex",
+                  height: SPARKLINE_HEIGHT,
+                  borderBottom: "4px solid #3f3f46",
+                }}
+              />
+            )}
+          </div>
+        </div>
+      ),
+      {
+        width: CARD_WIDTH,
+        height: CARD_HEIGHT,
+        headers: {
+          "Cache-Control": "public, max-age=600, stale-while-revalidate=3600",
+        },
+      }
+    );
+  } catch (error) {
+    console.error("Error rendering share card:", error);
+    return NextResponse.json(
+      { error: "Failed to render share card" },
+      { status: 500 }
+    );
+  }
+}
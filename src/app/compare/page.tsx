@@ -0,0 +1,36 @@
+import type { Metadata } from "next";
+import { MainLayout } from "@/components/templates/MainLayout";
+import { WalletComparison } from "@/components/organisms/WalletComparison";
+import { MAX_COMPARE_WALLETS } from "@/lib/compare";
+import { parseWalletList } from "@/lib/utils";
+
+interface ComparePageProps {
+  searchParams: Promise<{ wallets?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Compare Wallets - Monstats",
+  description:
+    "Compare the on-chain activity and scores of up to four Monad wallets side by side.",
+};
+
+/**
+ * Side-by-side wallet comparison page
+ * @param searchParams - Query params with the comma-separated wallet list
+ * @returns Compare page
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { wallets } = await searchParams;
+  const initialWallets = parseWalletList(wallets ?? null).slice(
+    0,
+    MAX_COMPARE_WALLETS
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-8 pb-16 animate-fade-in">
+        <WalletComparison initialWallets={initialWallets} />
+      </div>
+    </MainLayout>
+  );
+}
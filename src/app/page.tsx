@@ -15,10 +15,11 @@ import {
 
 import { useWalletStats } from "@/hooks/useWalletStats";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
-import { AlertCircle, Loader2, Info } from "lucide-react";
+import { AlertCircle, Loader2, Info, Share2, GitCompare, Briefcase } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { WalletStats } from "@/types";
 import Image from "next/image";
+import Link from "next/link";
 
 /**
  * Main page component for the Monstats
@@ -157,6 +158,29 @@ export default function HomePage() {
         {typedStats && !isLoading && (
           <div className="space-y-6 animate-fade-in">
             <StatsDashboard stats={typedStats} />
+            <div className="flex flex-wrap justify-center gap-6">
+              <Link
+                href={`/wallet/${submittedWalletAddress}`}
+                className="inline-flex items-center gap-2 text-sm text-purple-400 hover:text-purple-300 hover:underline transition-colors"
+              >
+                <Share2 className="h-4 w-4" />
+                View shareable profile
+              </Link>
+              <Link
+                href={`/compare?wallets=${submittedWalletAddress}`}
+                className="inline-flex items-center gap-2 text-sm text-purple-400 hover:text-purple-300 hover:underline transition-colors"
+              >
+                <GitCompare className="h-4 w-4" />
+                Compare with other wallets
+              </Link>
+              <Link
+                href={`/portfolio?wallets=${submittedWalletAddress}`}
+                className="inline-flex items-center gap-2 text-sm text-purple-400 hover:text-purple-300 hover:underline transition-colors"
+              >
+                <Briefcase className="h-4 w-4" />
+                Combine into a portfolio
+              </Link>
+            </div>
           </div>
         )}
 
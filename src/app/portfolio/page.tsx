@@ -0,0 +1,38 @@
+import type { Metadata } from "next";
+import { MainLayout } from "@/components/templates/MainLayout";
+import { PortfolioView } from "@/components/organisms/PortfolioView";
+import { MAX_PORTFOLIO_WALLETS } from "@/lib/portfolio";
+import { parseWalletList } from "@/lib/utils";
+
+interface PortfolioPageProps {
+  searchParams: Promise<{ wallets?: string }>;
+}
+
+export const metadata: Metadata = {
+  title: "Portfolio - Monstats",
+  description:
+    "Combine the on-chain activity of several Monad wallets into one set of stats.",
+};
+
+/**
+ * Multi-wallet portfolio page
+ * @param searchParams - Query params with the comma-separated wallet list
+ * @returns Portfolio page
+ */
+export default async function PortfolioPage({
+  searchParams,
+}: PortfolioPageProps) {
+  const { wallets } = await searchParams;
+  const initialWallets = parseWalletList(wallets ?? null).slice(
+    0,
+    MAX_PORTFOLIO_WALLETS
+  );
+
+  return (
+    <MainLayout>
+      <div className="space-y-8 pb-16 animate-fade-in">
+        <PortfolioView initialWallets={initialWallets} />
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,83 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { MainLayout } from "@/components/templates/MainLayout";
+import { WalletProfile } from "@/components/organisms/WalletProfile";
+import { getWalletProfile } from "@/lib/walletProfile";
+import { formatWalletAddress } from "@/lib/scoring";
+
+interface WalletPageProps {
+  params: Promise<{ address: string }>;
+}
+
+// Always render from the latest stored data
+export const dynamic = "force-dynamic";
+
+export async function generateMetadata({
+  params,
+}: WalletPageProps): Promise<Metadata> {
+  const { address } = await params;
+  const title = `${formatWalletAddress(address)} - Monstats`;
+  const description = `On-chain activity, score and leaderboard ranking for ${address} on Monad.`;
+  const shareCardUrl = `/api/share-card/${address}`;
+
+  return {
+    title,
+    description,
+    alternates: {
+      canonical: `/wallet/${address}`,
+    },
+    openGraph: {
+      title,
+      description,
+      url: `/wallet/${address}`,
+      siteName: "Monstats",
+      images: [
+        {
+          url: shareCardUrl,
+          width: 1200,
+          height: 630,
+          alt: `Monstats share card for ${formatWalletAddress(address)}`,
+        },
+      ],
+      locale: "en_US",
+      type: "profile",
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+      images: [shareCardUrl],
+      creator: "@tonashiro_",
+      site: "@tonashiro_",
+    },
+  };
+}
+
+/**
+ * Shareable wallet profile page
+ * @param params - Route params with the wallet address
+ * @returns Wallet profile page
+ */
+export default async function WalletPage({ params }: WalletPageProps) {
+  const { address } = await params;
+
+  if (!/^0x[a-fA-F0-9]{40}$/.test(address)) {
+    notFound();
+  }
+
+  const profile = await getWalletProfile(address);
+
+  return (
+    <MainLayout>
+      <div className="space-y-8 pb-16 animate-fade-in">
+        <WalletProfile
+          walletAddress={profile?.walletAddress ?? address}
+          stats={profile?.stats ?? null}
+          ranking={profile?.ranking ?? null}
+          scoreBreakdown={profile?.scoreBreakdown ?? []}
+          lastUpdated={profile?.lastUpdated ?? null}
+        />
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,126 @@
+import * as React from "react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/atoms/Table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { Badge } from "@/components/atoms/Badge";
+import { NFTCollectionHolding } from "@/types";
+import { NFTValuationConfig, NFT_VALUATION_LABELS } from "@/lib/nftValuation";
+import { formatMON, formatNumber } from "@/lib/utils";
+import { Images } from "lucide-react";
+
+/**
+ * NFTHoldingsTable component props interface
+ */
+export interface NFTHoldingsTableProps {
+  /** Valued collections, most valuable first */
+  holdings: NFTCollectionHolding[];
+  /** Bag value after the total cap, in MON */
+  totalValue: number;
+  /** How the holdings were priced */
+  valuation?: NFTValuationConfig;
+}
+
+/**
+ * Table of a wallet's NFT collections with the price and value used
+ * for the bag value, including collections rejected by validation
+ * @param holdings - Valued collections
+ * @param totalValue - Bag value in MON
+ * @param valuation - How the holdings were priced
+ * @returns NFTHoldingsTable component
+ */
+export const NFTHoldingsTable: React.FC<NFTHoldingsTableProps> = ({
+  holdings,
+  totalValue,
+  valuation,
+}) => {
+  const rejectedCount = holdings.filter((holding) => holding.isRejected).length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Images className="h-5 w-5 text-purple-500" />
+          NFT Holdings
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {holdings.length.toLocaleString()} collections worth{" "}
+          {formatMON(totalValue)} MON
+          {rejectedCount > 0 && ` · ${rejectedCount} not counted`}
+          {valuation &&
+            ` · priced at the ${NFT_VALUATION_LABELS[valuation.strategy]}${
+              valuation.erc1155Discount ? " with the ERC-1155 discount" : ""
+            }`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Collection</TableHead>
+              <TableHead className="text-right">Held</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {holdings.map((holding) => (
+              <TableRow
+                key={holding.contractAddress || holding.name}
+                className={holding.isRejected ? "opacity-60" : undefined}
+              >
+                <TableCell>
+                  <div className="flex items-center gap-3">
+                    {holding.image ? (
+                      // Collection images come from arbitrary hosts
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={holding.image}
+                        alt=""
+                        className="h-8 w-8 rounded object-cover"
+                      />
+                    ) : (
+                      <div className="h-8 w-8 rounded bg-muted" />
+                    )}
+                    <div>
+                      <p className="font-medium">{holding.name}</p>
+                      {holding.isRejected && (
+                        <Badge variant="destructive" className="mt-1">
+                          {holding.rejectionReason || "Not counted"}
+                        </Badge>
+                      )}
+                      {holding.listType === "allow" && (
+                        <Badge variant="outline" className="mt-1">
+                          Verified
+                        </Badge>
+                      )}
+                    </div>
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatNumber(holding.heldCount)}
+                </TableCell>
+                <TableCell className="text-right">
+                  {formatMON(holding.unitPrice)} MON
+                </TableCell>
+                <TableCell className="text-right font-medium">
+                  {formatMON(holding.value)} MON
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,76 @@
+import * as React from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { TrendingUp } from "lucide-react";
+
+/**
+ * A single weighted score component
+ */
+export interface ScoreBreakdownItem {
+  label: string;
+  score: number;
+  weight: number;
+}
+
+/**
+ * ScoreBreakdownCard component props interface
+ */
+export interface ScoreBreakdownCardProps {
+  /** Score components, as returned by getScoreBreakdown */
+  items: ScoreBreakdownItem[];
+  /** Card title */
+  title?: string;
+}
+
+/**
+ * Score breakdown card showing each component's score and weight
+ * @param items - Score components
+ * @param title - Card title
+ * @returns ScoreBreakdownCard component
+ */
+export const ScoreBreakdownCard: React.FC<ScoreBreakdownCardProps> = ({
+  items,
+  title = "Score Breakdown",
+}) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <TrendingUp className="h-5 w-5 text-purple-500" />
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+          {items.map((item) => (
+            <div key={item.label} className="space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="text-sm text-muted-foreground">
+                  {item.label}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {(item.weight * 100).toFixed(0)}%
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 bg-muted rounded-full h-2">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${item.score}%` }}
+                  />
+                </div>
+                <span className="text-sm font-medium w-12 text-right">
+                  {item.score.toFixed(1)}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import * as React from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { TokenActivity } from "@/types";
+import { formatWalletAddress } from "@/lib/scoring";
+import { Coins } from "lucide-react";
+
+/**
+ * TokenActivityCard component props interface
+ */
+export interface TokenActivityCardProps {
+  /** Number of ERC-20 transfers */
+  tokenTransferCount: number;
+  /** Number of distinct tokens transferred */
+  uniqueTokens: number;
+  /** Most transferred tokens, most active first */
+  topTokens: TokenActivity[];
+}
+
+/**
+ * Token activity card showing ERC-20 transfer totals and the most
+ * transferred tokens
+ * @param tokenTransferCount - Number of ERC-20 transfers
+ * @param uniqueTokens - Number of distinct tokens
+ * @param topTokens - Most transferred tokens
+ * @returns TokenActivityCard component
+ */
+export const TokenActivityCard: React.FC<TokenActivityCardProps> = ({
+  tokenTransferCount,
+  uniqueTokens,
+  topTokens,
+}) => {
+  const maxTransfers = topTokens[0]?.transferCount || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5 text-purple-500" />
+          Token Activity
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <p className="text-sm text-muted-foreground">Token Transfers</p>
+            <p className="text-2xl font-bold">
+              {tokenTransferCount.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-muted-foreground">Unique Tokens</p>
+            <p className="text-2xl font-bold">
+              {uniqueTokens.toLocaleString()}
+            </p>
+          </div>
+        </div>
+
+        {topTokens.length > 0 ? (
+          <div className="space-y-3">
+            <p className="text-sm font-medium">Top Tokens</p>
+            {topTokens.map((token) => (
+              <div key={token.contractAddress} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span title={token.name || token.contractAddress}>
+                    {token.symbol || formatWalletAddress(token.contractAddress)}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {token.transferCount.toLocaleString()} transfers
+                  </span>
+                </div>
+                <div className="bg-muted rounded-full h-2">
+                  <div
+                    className="bg-purple-500 h-2 rounded-full transition-all duration-300"
+                    style={{
+                      width: `${(token.transferCount / maxTransfers) * 100}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No ERC-20 token transfers yet
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,95 @@
+import * as React from "react";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { ProtocolActivity } from "@/types";
+import { LayoutGrid } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatMON } from "@/lib/utils";
+
+// Number of protocols drawn in the chart
+const TOP_DAPPS_LIMIT = 8;
+
+/**
+ * TopDappsChart component props interface
+ */
+export interface TopDappsChartProps {
+  /** Per-protocol activity, most used first */
+  protocols: ProtocolActivity[];
+  /** Number of protocols the wallet has used */
+  distinctProtocols: number;
+}
+
+/**
+ * Horizontal bar chart of the protocols a wallet calls most
+ * @param protocols - Per-protocol activity
+ * @param distinctProtocols - Number of protocols used
+ * @returns TopDappsChart component
+ */
+export const TopDappsChart: React.FC<TopDappsChartProps> = ({
+  protocols,
+  distinctProtocols,
+}) => {
+  const data = protocols.slice(0, TOP_DAPPS_LIMIT);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <LayoutGrid className="h-5 w-5 text-purple-500" />
+            Top dApps
+          </CardTitle>
+          <span className="text-sm text-muted-foreground">
+            {distinctProtocols.toLocaleString()} protocols used
+          </span>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} layout="vertical">
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis
+                type="number"
+                tick={{ fontSize: 12 }}
+                allowDecimals={false}
+              />
+              <YAxis
+                type="category"
+                dataKey="protocol"
+                tick={{ fontSize: 12 }}
+                width={120}
+              />
+              <Tooltip
+                contentStyle={{
+                  backgroundColor: "white",
+                  border: "1px solid #e2e8f0",
+                  borderRadius: "8px",
+                }}
+                formatter={(value: number, _name: string, item) => [
+                  `${value.toLocaleString()} txs · ${formatMON(
+                    item.payload.gasSpentMON
+                  )} gas`,
+                  item.payload.category.replace("_", " "),
+                ]}
+              />
+              <Bar dataKey="txCount" fill="#8b5cf6" radius={[0, 4, 4, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
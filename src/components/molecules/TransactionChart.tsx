@@ -6,7 +6,7 @@ import {
   CardTitle,
 } from "@/components/atoms/Card";
 import { Button } from "@/components/atoms/Button";
-import { TransactionDataPoint } from "@/types";
+import { NFTValueDataPoint, TransactionDataPoint } from "@/types";
 import { TrendingUp, Calendar } from "lucide-react";
 import {
   LineChart,
@@ -15,6 +15,7 @@ import {
   YAxis,
   CartesianGrid,
   Tooltip,
+  Legend,
   ResponsiveContainer,
 } from "recharts";
 import { formatMON } from "@/lib/utils";
@@ -25,12 +26,46 @@ import { ChartSkeleton } from "@/components/atoms/Skeleton";
  */
 type TimePeriod = "30D" | "3M" | "ALL";
 
+/**
+ * Last day a chart row covers, as YYYY-MM-DD: the day itself, the last day
+ * of a week, or past the end of a month (monthly rows are keyed YYYY-MM)
+ */
+const getPeriodEnd = (key: string, timePeriod: TimePeriod): string => {
+  switch (timePeriod) {
+    case "3M": {
+      const weekEnd = new Date(key);
+      weekEnd.setUTCDate(weekEnd.getUTCDate() + 6);
+      return weekEnd.toISOString().split("T")[0];
+    }
+    case "ALL":
+      return `${key}-31`;
+    default:
+      return key;
+  }
+};
+
+/**
+ * A named transaction history drawn as its own line (e.g. one per wallet)
+ */
+export interface TransactionChartSeries {
+  /** Legend and tooltip name */
+  name: string;
+  /** Line color */
+  color: string;
+  /** Transaction history data */
+  data: TransactionDataPoint[];
+}
+
 /**
  * TransactionChart component props interface
  */
 export interface TransactionChartProps {
   /** Transaction history data */
-  data: TransactionDataPoint[];
+  data?: TransactionDataPoint[];
+  /** Overlaid transaction series; replaces data when provided */
+  series?: TransactionChartSeries[];
+  /** Daily NFT bag values, oldest first; drawn alongside data */
+  nftValueHistory?: NFTValueDataPoint[];
   /** Whether the chart is loading */
   isLoading?: boolean;
 }
@@ -38,11 +73,15 @@ export interface TransactionChartProps {
 /**
  * Transaction chart component with time period selection
  * @param data - Transaction history data
+ * @param series - Overlaid transaction series, one line each
+ * @param nftValueHistory - Daily NFT bag values
  * @param isLoading - Whether the chart is loading
  * @returns TransactionChart component
  */
 export const TransactionChart: React.FC<TransactionChartProps> = ({
-  data,
+  data = [],
+  series,
+  nftValueHistory = [],
   isLoading = false,
 }) => {
   const [timePeriod, setTimePeriod] = React.useState<TimePeriod>("30D");
@@ -109,129 +148,178 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
   }, []);
 
   // Process data based on selected time period
-  const processedData = React.useMemo(() => {
-    if (!data || data.length === 0) return [];
-
-    const now = new Date();
-    let cutoffDate: Date;
-    let endDate: Date;
-
-    switch (timePeriod) {
-      case "30D":
-        cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        endDate = now;
-        break;
-      case "3M":
-        cutoffDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-        endDate = now;
-        break;
-      case "ALL":
-        // For ALL, use the actual data range but ensure we start from launch date
-        const launchDate = new Date("2025-02-19T00:00:00Z");
-        cutoffDate = launchDate;
-        endDate = now;
-        break;
-      default:
-        cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
-        endDate = now;
-    }
-
-    // Filter data based on time period
-    const filteredData = data.filter(
-      (item) =>
-        new Date(item.date) >= cutoffDate && new Date(item.date) <= endDate
-    );
+  const processData = React.useCallback(
+    (data: TransactionDataPoint[]) => {
+      if (!data || data.length === 0) return [];
+
+      const now = new Date();
+      let cutoffDate: Date;
+      let endDate: Date;
+
+      switch (timePeriod) {
+        case "30D":
+          cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+          endDate = now;
+          break;
+        case "3M":
+          cutoffDate = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+          endDate = now;
+          break;
+        case "ALL":
+          // For ALL, use the actual data range but ensure we start from launch date
+          const launchDate = new Date("2025-02-19T00:00:00Z");
+          cutoffDate = launchDate;
+          endDate = now;
+          break;
+        default:
+          cutoffDate = new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000);
+          endDate = now;
+      }
 
-    if (timePeriod === "3M") {
-      // Group by weeks for 3 months view
-      return groupByWeeks(filteredData);
-    } else if (timePeriod === "ALL") {
-      // Group by months for all-time view - ensure we include all months from launch to now
-      const launchDate = new Date("2025-02-19T00:00:00Z");
-      const startMonth = new Date(
-        launchDate.getFullYear(),
-        launchDate.getMonth(),
-        1
+      // Filter data based on time period
+      const filteredData = data.filter(
+        (item) =>
+          new Date(item.date) >= cutoffDate && new Date(item.date) <= endDate
       );
-      const endMonth = new Date(now.getFullYear(), now.getMonth(), 1);
-
-      const completeMonths: (TransactionDataPoint & { label: string })[] = [];
-      const currentMonth = new Date(startMonth);
-
-      while (currentMonth <= endMonth) {
-        const monthKey = `${currentMonth.getFullYear()}-${String(
-          currentMonth.getMonth() + 1
-        ).padStart(2, "0")}`;
-
-        // Find data for this month
-        const monthData = filteredData.filter((item) => {
-          const itemDate = new Date(item.date);
-          return (
-            itemDate.getFullYear() === currentMonth.getFullYear() &&
-            itemDate.getMonth() === currentMonth.getMonth()
-          );
-        });
 
-        // Sum up the data for this month
-        const monthTransactions = monthData.reduce(
-          (sum, item) => sum + item.transactions,
-          0
-        );
-        const monthVolume = monthData.reduce(
-          (sum, item) => sum + item.volume,
-          0
-        );
-        const monthGasSpent = monthData.reduce(
-          (sum, item) => sum + item.gasSpent,
-          0
+      if (timePeriod === "3M") {
+        // Group by weeks for 3 months view
+        return groupByWeeks(filteredData);
+      } else if (timePeriod === "ALL") {
+        // Group by months for all-time view - ensure we include all months from launch to now
+        const launchDate = new Date("2025-02-19T00:00:00Z");
+        const startMonth = new Date(
+          launchDate.getFullYear(),
+          launchDate.getMonth(),
+          1
         );
+        const endMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+        const completeMonths: (TransactionDataPoint & { label: string })[] = [];
+        const currentMonth = new Date(startMonth);
+
+        while (currentMonth <= endMonth) {
+          const monthKey = `${currentMonth.getFullYear()}-${String(
+            currentMonth.getMonth() + 1
+          ).padStart(2, "0")}`;
+
+          // Find data for this month
+          const monthData = filteredData.filter((item) => {
+            const itemDate = new Date(item.date);
+            return (
+              itemDate.getFullYear() === currentMonth.getFullYear() &&
+              itemDate.getMonth() === currentMonth.getMonth()
+            );
+          });
+
+          // Sum up the data for this month
+          const monthTransactions = monthData.reduce(
+            (sum, item) => sum + item.transactions,
+            0
+          );
+          const monthVolume = monthData.reduce(
+            (sum, item) => sum + item.volume,
+            0
+          );
+          const monthGasSpent = monthData.reduce(
+            (sum, item) => sum + item.gasSpent,
+            0
+          );
 
-        completeMonths.push({
-          date: monthKey,
-          transactions: monthTransactions,
-          volume: monthVolume,
-          gasSpent: monthGasSpent,
-          label: currentMonth.toLocaleDateString("en-US", {
-            year: "numeric",
-            month: "short",
-          }),
-        });
+          completeMonths.push({
+            date: monthKey,
+            transactions: monthTransactions,
+            volume: monthVolume,
+            gasSpent: monthGasSpent,
+            label: currentMonth.toLocaleDateString("en-US", {
+              year: "numeric",
+              month: "short",
+            }),
+          });
+
+          // Move to next month
+          currentMonth.setMonth(currentMonth.getMonth() + 1);
+        }
+
+        return completeMonths;
+      } else {
+        // Daily data for 30D view - fill in missing days with zeros
+        const completeData: (TransactionDataPoint & { label: string })[] = [];
+        const currentDate = new Date(cutoffDate);
+
+        while (currentDate <= endDate) {
+          const dateString = currentDate.toISOString().split("T")[0];
+          const existingData = filteredData.find(
+            (item) => item.date === dateString
+          );
 
-        // Move to next month
-        currentMonth.setMonth(currentMonth.getMonth() + 1);
+          completeData.push({
+            ...existingData,
+            date: dateString,
+            transactions: existingData?.transactions || 0,
+            volume: existingData?.volume || 0,
+            gasSpent: existingData?.gasSpent || 0,
+            label: currentDate.toLocaleDateString("en-US", {
+              month: "short",
+              day: "numeric",
+            }),
+          });
+
+          // Move to next day
+          currentDate.setDate(currentDate.getDate() + 1);
+        }
+
+        return completeData;
       }
+    },
+    [timePeriod, groupByWeeks]
+  );
 
-      return completeMonths;
-    } else {
-      // Daily data for 30D view - fill in missing days with zeros
-      const completeData: (TransactionDataPoint & { label: string })[] = [];
-      const currentDate = new Date(cutoffDate);
+  const processedData = React.useMemo(
+    () => processData(data),
+    [data, processData]
+  );
 
-      while (currentDate <= endDate) {
-        const dateString = currentDate.toISOString().split("T")[0];
-        const existingData = filteredData.find(
-          (item) => item.date === dateString
-        );
+  // Bag value is a level rather than a flow, so each row shows the latest
+  // snapshot up to the end of its period
+  const chartData = React.useMemo(() => {
+    if (nftValueHistory.length === 0) return processedData;
 
-        completeData.push({
-          ...existingData,
-          date: dateString,
-          transactions: existingData?.transactions || 0,
-          volume: existingData?.volume || 0,
-          gasSpent: existingData?.gasSpent || 0,
-          label: currentDate.toLocaleDateString("en-US", {
-            month: "short",
-            day: "numeric",
-          }),
-        });
+    return processedData.map((row) => {
+      const periodEnd = getPeriodEnd(row.date, timePeriod);
+      const latest = nftValueHistory
+        .filter((point) => point.date <= periodEnd)
+        .pop();
 
-        // Move to next day
-        currentDate.setDate(currentDate.getDate() + 1);
-      }
+      return { ...row, nftBagValue: latest?.value };
+    });
+  }, [processedData, nftValueHistory, timePeriod]);
+
+  // Merge each series into shared rows keyed by period, one column per series
+  const processedSeries = React.useMemo(() => {
+    if (!series || series.length === 0) return null;
+
+    const rows = new Map<string, Record<string, string | number>>();
+    series.forEach((item, index) => {
+      processData(item.data).forEach((point) => {
+        const row = rows.get(point.date) ?? {
+          date: point.date,
+          label: point.label,
+          ...Object.fromEntries(series.map((_, i) => [`series${i}`, 0])),
+        };
+        row[`series${index}`] = point.transactions;
+        rows.set(point.date, row);
+      });
+    });
 
-      return completeData;
-    }
-  }, [data, timePeriod, groupByWeeks]);
+    return Array.from(rows.values()).sort((a, b) =>
+      String(a.date).localeCompare(String(b.date))
+    );
+  }, [series, processData]);
+
+  const hasData = series
+    ? series.some((item) => item.data.length > 0)
+    : data.length > 0;
 
   const getChartTitle = () => {
     switch (timePeriod) {
@@ -267,7 +355,7 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
     );
   }
 
-  if (!data || data.length === 0) {
+  if (!hasData) {
     return (
       <Card>
         <CardHeader>
@@ -314,7 +402,7 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
       <CardContent>
         <div className="h-64">
           <ResponsiveContainer width="100%" height="100%">
-            <LineChart data={processedData}>
+            <LineChart data={processedSeries ?? chartData}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis
                 dataKey={getXAxisDataKey()}
@@ -331,40 +419,91 @@ export const TransactionChart: React.FC<TransactionChartProps> = ({
                   position: "insideLeft",
                 }}
               />
+              {!processedSeries && nftValueHistory.length > 0 && (
+                <YAxis
+                  yAxisId="nft"
+                  orientation="right"
+                  tick={{ fontSize: 12 }}
+                  tickFormatter={(value: number) => formatMON(value)}
+                  label={{
+                    value: "NFT Bag Value (MON)",
+                    angle: 90,
+                    position: "insideRight",
+                  }}
+                />
+              )}
               <Tooltip
                 contentStyle={{
                   backgroundColor: "white",
                   border: "1px solid #e2e8f0",
                   borderRadius: "8px",
                 }}
-                formatter={(value: number, name: string) => [
-                  name === "transactions" ? value : formatMON(value),
-                  name === "transactions"
-                    ? "Transactions"
-                    : name === "volume"
-                    ? "Volume (MON)"
-                    : "Gas Spent (MON)",
-                ]}
+                formatter={(value: number, name: string) =>
+                  processedSeries
+                    ? [value, name]
+                    : [
+                        name === "transactions" ? value : formatMON(value),
+                        name === "transactions"
+                          ? "Transactions"
+                          : name === "volume"
+                          ? "Volume (MON)"
+                          : name === "nftBagValue"
+                          ? "NFT Bag Value (MON)"
+                          : "Gas Spent (MON)",
+                      ]
+                }
                 labelFormatter={(label) => `Date: ${label}`}
               />
-              <Line
-                type="monotone"
-                dataKey="transactions"
-                stroke="#8b5cf6"
-                strokeWidth={2}
-                dot={{ fill: "#8b5cf6", strokeWidth: 2, r: 4 }}
-                activeDot={{ r: 6, stroke: "#8b5cf6", strokeWidth: 2 }}
-                name="transactions"
-              />
-              <Line
-                type="monotone"
-                dataKey="volume"
-                stroke="#10b981"
-                strokeWidth={2}
-                dot={{ fill: "#10b981", strokeWidth: 2, r: 4 }}
-                activeDot={{ r: 6, stroke: "#10b981", strokeWidth: 2 }}
-                name="volume"
-              />
+              {processedSeries ? (
+                <>
+                  <Legend />
+                  {series?.map((item, index) => (
+                    <Line
+                      key={item.name}
+                      type="monotone"
+                      dataKey={`series${index}`}
+                      stroke={item.color}
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 5, stroke: item.color, strokeWidth: 2 }}
+                      name={item.name}
+                    />
+                  ))}
+                </>
+              ) : (
+                <>
+                  <Line
+                    type="monotone"
+                    dataKey="transactions"
+                    stroke="#8b5cf6"
+                    strokeWidth={2}
+                    dot={{ fill: "#8b5cf6", strokeWidth: 2, r: 4 }}
+                    activeDot={{ r: 6, stroke: "#8b5cf6", strokeWidth: 2 }}
+                    name="transactions"
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="volume"
+                    stroke="#10b981"
+                    strokeWidth={2}
+                    dot={{ fill: "#10b981", strokeWidth: 2, r: 4 }}
+                    activeDot={{ r: 6, stroke: "#10b981", strokeWidth: 2 }}
+                    name="volume"
+                  />
+                  {nftValueHistory.length > 0 && (
+                    <Line
+                      yAxisId="nft"
+                      type="stepAfter"
+                      dataKey="nftBagValue"
+                      stroke="#f59e0b"
+                      strokeWidth={2}
+                      dot={false}
+                      activeDot={{ r: 6, stroke: "#f59e0b", strokeWidth: 2 }}
+                      name="nftBagValue"
+                    />
+                  )}
+                </>
+              )}
             </LineChart>
           </ResponsiveContainer>
         </div>
@@ -1,4 +1,5 @@
 import * as React from "react";
+import Link from "next/link";
 import {
   Table,
   TableBody,
@@ -17,6 +18,7 @@ import { Badge } from "@/components/atoms/Badge";
 import { Input } from "@/components/atoms/Input";
 import { Pagination } from "@/components/atoms/Pagination";
 import { Button } from "@/components/atoms/Button";
+import { ScoreBreakdownCard } from "@/components/molecules/ScoreBreakdownCard";
 import {
   Trophy,
   Medal,
@@ -28,13 +30,14 @@ import {
   ArrowUpDown,
   ArrowUp,
   ArrowDown,
+  Minus,
 } from "lucide-react";
 import {
   LeaderboardEntry,
   formatWalletAddress,
   getScoreBreakdown,
 } from "@/lib/scoring";
-import { formatMON, formatNumber } from "@/lib/utils";
+import { formatMON, formatNumber, formatSignedMON } from "@/lib/utils";
 import { cn } from "@/lib/utils";
 import { useLeaderboard } from "@/hooks/useLeaderboard";
 import { useWalletStats } from "@/hooks/useWalletStats";
@@ -49,11 +52,29 @@ export interface LeaderboardProps {
 const SORT_OPTIONS = [
   { value: "totalScore", label: "Score", defaultOrder: "desc" as const },
   { value: "totalVolume", label: "Volume", defaultOrder: "desc" as const },
+  { value: "sentVolume", label: "Sent", defaultOrder: "desc" as const },
+  { value: "receivedVolume", label: "Received", defaultOrder: "desc" as const },
+  { value: "netVolume", label: "Net Flow", defaultOrder: "desc" as const },
   { value: "gasSpentMON", label: "Gas Spent", defaultOrder: "desc" as const },
   { value: "txCount", label: "Transactions", defaultOrder: "desc" as const },
   { value: "nftBagValue", label: "NFT Value", defaultOrder: "desc" as const },
   { value: "daysActive", label: "Days Active", defaultOrder: "desc" as const },
   { value: "longestStreak", label: "Streak", defaultOrder: "desc" as const },
+  {
+    value: "uniqueCounterparties",
+    label: "Counterparties",
+    defaultOrder: "desc" as const,
+  },
+  {
+    value: "uniqueContracts",
+    label: "Contracts",
+    defaultOrder: "desc" as const,
+  },
+  {
+    value: "contractsDeployed",
+    label: "Deployed",
+    defaultOrder: "desc" as const,
+  },
 ] as const;
 
 const getRankIcon = (userNumber: number) => {
@@ -63,6 +84,47 @@ const getRankIcon = (userNumber: number) => {
   return null;
 };
 
+/**
+ * Up/down arrow showing how many places a wallet moved since a snapshot
+ */
+const RankChangeIndicator: React.FC<{
+  change: number | null | undefined;
+  period: string;
+}> = ({ change, period }) => {
+  if (change === null || change === undefined) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  if (change === 0) {
+    return (
+      <span
+        className="inline-flex items-center text-muted-foreground"
+        title={`No change since ${period}`}
+      >
+        <Minus className="h-3 w-3" />
+      </span>
+    );
+  }
+
+  const isUp = change > 0;
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-0.5 text-xs font-medium",
+        isUp ? "text-green-500" : "text-red-500"
+      )}
+      title={`${isUp ? "Up" : "Down"} ${Math.abs(change)} since ${period}`}
+    >
+      {isUp ? (
+        <ArrowUp className="h-3 w-3" />
+      ) : (
+        <ArrowDown className="h-3 w-3" />
+      )}
+      {Math.abs(change)}
+    </span>
+  );
+};
+
 export const Leaderboard: React.FC<LeaderboardProps> = ({
   data,
   isLoading = false,
@@ -139,9 +201,15 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
             txCount: currentUserStats.txCount,
             gasSpentMON: currentUserStats.gasSpentMON,
             totalVolume: currentUserStats.totalVolume,
+            sentVolume: currentUserStats.sentVolume,
+            receivedVolume: currentUserStats.receivedVolume,
+            netVolume: currentUserStats.netVolume,
             nftBagValue: currentUserStats.nftBagValue,
             isDay1User: currentUserStats.isDay1User,
             longestStreak: currentUserStats.longestStreak,
+            uniqueCounterparties: currentUserStats.uniqueCounterparties,
+            uniqueContracts: currentUserStats.uniqueContracts,
+            contractsDeployed: currentUserStats.contractsDeployed,
             daysActive: 0, // This will be calculated from transaction history
             transactionHistory: currentUserStats.transactionHistory,
           },
@@ -153,8 +221,14 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
             daysActiveScore: 0,
             streakScore: 0,
             day1BonusScore: 0,
+            tokenScore: 0,
+            protocolScore: 0,
+            counterpartyScore: 0,
+            contractScore: 0,
+            deploymentScore: 0,
             totalScore: 0,
           },
+          scoreWeights: currentUserStats.scoreWeights,
         }
       : currentUser;
 
@@ -310,41 +384,13 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
 
       {/* Score Breakdown for Current User */}
       {currentUserData && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <TrendingUp className="h-5 w-5 text-purple-500" />
-              Your Score Breakdown
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-              {getScoreBreakdown(currentUserData.scores).map((item) => (
-                <div key={item.label} className="space-y-2">
-                  <div className="flex items-center justify-between">
-                    <span className="text-sm text-muted-foreground">
-                      {item.label}
-                    </span>
-                    <span className="text-xs text-muted-foreground">
-                      {(item.weight * 100).toFixed(0)}%
-                    </span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <div className="flex-1 bg-muted rounded-full h-2">
-                      <div
-                        className="bg-purple-500 h-2 rounded-full transition-all duration-300"
-                        style={{ width: `${item.score}%` }}
-                      />
-                    </div>
-                    <span className="text-sm font-medium w-12 text-right">
-                      {item.score.toFixed(1)}
-                    </span>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+        <ScoreBreakdownCard
+          title="Your Score Breakdown"
+          items={getScoreBreakdown(
+            currentUserData.scores,
+            currentUserData.scoreWeights
+          )}
+        />
       )}
 
       {/* Leaderboard Table */}
@@ -421,14 +467,22 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-16">#</TableHead>
+                  <TableHead className="text-center">24h</TableHead>
+                  <TableHead className="text-center">7d</TableHead>
                   <TableHead>Wallet</TableHead>
                   <TableHead className="text-right">Score</TableHead>
                   <TableHead className="text-right">Volume</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Net Flow</TableHead>
                   <TableHead className="text-right">Gas Spent</TableHead>
                   <TableHead className="text-right">Transactions</TableHead>
                   <TableHead className="text-right">NFT Value</TableHead>
                   <TableHead className="text-right">Days Active</TableHead>
                   <TableHead className="text-right">Streak</TableHead>
+                  <TableHead className="text-right">Counterparties</TableHead>
+                  <TableHead className="text-right">Contracts</TableHead>
+                  <TableHead className="text-right">Deployed</TableHead>
                   <TableHead className="text-center">Day 1</TableHead>
                 </TableRow>
               </TableHeader>
@@ -452,8 +506,25 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
                           {getRankIcon(entry.userNumber)}
                         </div>
                       </TableCell>
+                      <TableCell className="text-center">
+                        <RankChangeIndicator
+                          change={entry.rankChange?.day}
+                          period="yesterday"
+                        />
+                      </TableCell>
+                      <TableCell className="text-center">
+                        <RankChangeIndicator
+                          change={entry.rankChange?.week}
+                          period="7 days ago"
+                        />
+                      </TableCell>
                       <TableCell className="font-mono">
-                        {formatWalletAddress(entry.walletAddress)}
+                        <Link
+                          href={`/wallet/${entry.walletAddress}`}
+                          className="hover:text-purple-400 hover:underline transition-colors"
+                        >
+                          {formatWalletAddress(entry.walletAddress)}
+                        </Link>
                       </TableCell>
                       <TableCell className="text-right font-bold">
                         {entry.totalScore.toFixed(1)}
@@ -461,6 +532,21 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
                       <TableCell className="text-right">
                         {formatMON(entry.metrics.totalVolume)}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {formatMON(entry.metrics.sentVolume ?? 0)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMON(entry.metrics.receivedVolume ?? 0)}
+                      </TableCell>
+                      <TableCell
+                        className={cn(
+                          "text-right",
+                          (entry.metrics.netVolume ?? 0) > 0 && "text-green-500",
+                          (entry.metrics.netVolume ?? 0) < 0 && "text-red-500"
+                        )}
+                      >
+                        {formatSignedMON(entry.metrics.netVolume ?? 0)}
+                      </TableCell>
                       <TableCell className="text-right">
                         {formatMON(entry.metrics.gasSpentMON)}
                       </TableCell>
@@ -476,6 +562,17 @@ export const Leaderboard: React.FC<LeaderboardProps> = ({
                       <TableCell className="text-right">
                         {entry.metrics.longestStreak}
                       </TableCell>
+                      <TableCell className="text-right">
+                        {(
+                          entry.metrics.uniqueCounterparties ?? 0
+                        ).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(entry.metrics.uniqueContracts ?? 0).toLocaleString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {entry.metrics.contractsDeployed ?? 0}
+                      </TableCell>
                       <TableCell className="text-center">
                         {entry.metrics.isDay1User ? (
                           <Crown className="h-4 w-4 text-yellow-500 mx-auto" />
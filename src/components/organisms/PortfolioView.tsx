@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { Button } from "@/components/atoms/Button";
+import { StatsDashboard } from "@/components/organisms/StatsDashboard";
+import { usePortfolioStats } from "@/hooks/usePortfolioStats";
+import {
+  MAX_PORTFOLIO_WALLETS,
+  MIN_PORTFOLIO_WALLETS,
+} from "@/lib/portfolio";
+import { formatWalletAddress } from "@/lib/scoring";
+import { parseWalletList } from "@/lib/utils";
+import { AlertCircle, Briefcase, Loader2 } from "lucide-react";
+
+/**
+ * PortfolioView component props interface
+ */
+export interface PortfolioViewProps {
+  /** Wallets in the portfolio on first render (from the URL) */
+  initialWallets: string[];
+}
+
+/**
+ * Combined stats dashboard for several wallets owned by the same person
+ * @param initialWallets - Wallets in the portfolio on first render
+ * @returns PortfolioView component
+ */
+export const PortfolioView: React.FC<PortfolioViewProps> = ({
+  initialWallets,
+}) => {
+  const router = useRouter();
+  const [input, setInput] = React.useState(initialWallets.join("\n"));
+  const [wallets, setWallets] = React.useState<string[]>(initialWallets);
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  const { data: stats, isLoading, error } = usePortfolioStats(wallets);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const addresses = parseWalletList(input.split(/[\s,]+/).join(","));
+    if (
+      addresses.length < MIN_PORTFOLIO_WALLETS ||
+      addresses.length > MAX_PORTFOLIO_WALLETS
+    ) {
+      setFormError(
+        `Enter between ${MIN_PORTFOLIO_WALLETS} and ${MAX_PORTFOLIO_WALLETS} wallet addresses`
+      );
+      return;
+    }
+    if (addresses.some((address) => !/^0x[a-fA-F0-9]{40}$/.test(address))) {
+      setFormError(
+        "Please enter valid EVM wallet addresses (0x followed by 40 hex characters)"
+      );
+      return;
+    }
+
+    setFormError(null);
+    setWallets(addresses);
+    router.replace(`/portfolio?wallets=${addresses.join(",")}`);
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Wallet Inputs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 text-purple-500" />
+            Portfolio
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Combine up to {MAX_PORTFOLIO_WALLETS} wallets into one set of
+            stats. Transfers between them are only counted once.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <textarea
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              placeholder={"0x...\n0x..."}
+              rows={4}
+              className="flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+            />
+            {formError && (
+              <div className="flex items-center space-x-2 text-red-400 text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{formError}</span>
+              </div>
+            )}
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Combining...
+                </>
+              ) : (
+                "Combine wallets"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Card className="border-red-500/20 bg-red-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 text-red-400">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">{error.message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Loading State */}
+      {isLoading && (
+        <Card>
+          <CardContent className="pt-6">
+            <div className="flex items-center justify-center space-x-2">
+              <Loader2 className="h-5 w-5 animate-spin text-purple-500" />
+              <span>Fetching statistics for {wallets.length} wallets...</span>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Merged Dashboard */}
+      {stats && !isLoading && (
+        <div className="space-y-6 animate-fade-in">
+          <Card>
+            <CardContent className="pt-6 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+              <span className="text-muted-foreground">
+                {stats.wallets.length} wallets
+              </span>
+              {stats.wallets.map((address) => (
+                <Link
+                  key={address}
+                  href={`/wallet/${address}`}
+                  className="font-mono text-purple-400 hover:text-purple-300 hover:underline"
+                >
+                  {formatWalletAddress(address)}
+                </Link>
+              ))}
+              <span className="text-muted-foreground">
+                {stats.daysActive} days active
+              </span>
+              <span className="text-muted-foreground">
+                {stats.internalTransfers} internal transfers
+              </span>
+            </CardContent>
+          </Card>
+          {stats.nftUnavailableWallets.length > 0 && (
+            <Card className="border-yellow-500/20 bg-yellow-500/5">
+              <CardContent className="flex items-start gap-3 pt-6">
+                <AlertCircle className="h-5 w-5 text-yellow-500 shrink-0" />
+                <p className="text-sm">
+                  NFT bag value is partial: holdings couldn&apos;t be fetched
+                  for{" "}
+                  {stats.nftUnavailableWallets
+                    .map((address) => formatWalletAddress(address))
+                    .join(", ")}
+                  .
+                </p>
+              </CardContent>
+            </Card>
+          )}
+          <StatsDashboard stats={stats} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,24 @@
 import * as React from "react";
-import { Card } from "@/components/atoms/Card";
+import { Card, CardContent } from "@/components/atoms/Card";
 import { MetricCard } from "@/components/molecules/MetricCard";
 import { TransactionChart } from "@/components/molecules/TransactionChart";
+import { TokenActivityCard } from "@/components/molecules/TokenActivityCard";
+import { TopDappsChart } from "@/components/molecules/TopDappsChart";
+import { NFTHoldingsTable } from "@/components/molecules/NFTHoldingsTable";
 import { MetricCardSkeleton, ChartSkeleton } from "@/components/atoms/Skeleton";
 import { WalletStats } from "@/types";
-import { formatNumber, formatMON } from "@/lib/utils";
-import { Flame, Fuel, Palette, DollarSign, Hash, Crown } from "lucide-react";
+import { formatNumber, formatMON, formatSignedMON } from "@/lib/utils";
+import {
+  Flame,
+  Fuel,
+  Palette,
+  DollarSign,
+  Hash,
+  Crown,
+  XCircle,
+  Network,
+  ShieldAlert,
+} from "lucide-react";
 
 /**
  * StatsDashboard component props interface
@@ -33,7 +46,7 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
     return (
       <div className="space-y-6 animate-fade-in">
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {[...Array(6)].map((_, i) => (
+          {[...Array(7)].map((_, i) => (
             <Card key={i} className="animate-pulse-slow">
               <MetricCardSkeleton />
             </Card>
@@ -48,6 +61,26 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
 
   return (
     <div className="space-y-6">
+      {/* Farming Flag */}
+      {stats.isFlagged && (
+        <Card className="border-red-500/20 bg-red-500/5">
+          <CardContent className="flex items-start gap-3 pt-6">
+            <ShieldAlert className="h-5 w-5 text-red-500 shrink-0" />
+            <div className="space-y-1">
+              <p className="font-medium">
+                Hidden from the leaderboard (risk score{" "}
+                {Math.round(stats.riskScore ?? 0)})
+              </p>
+              <ul className="text-sm text-muted-foreground">
+                {(stats.riskReasons || []).map((reason) => (
+                  <li key={reason.code}>{reason.description}</li>
+                ))}
+              </ul>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Metrics Grid */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         <MetricCard
@@ -69,7 +102,13 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
         <MetricCard
           title="Total Volume"
           value={`${formatMON(stats.totalVolume)} MON`}
-          description="Total MON volume in transactions"
+          description={
+            stats.sentVolume !== undefined
+              ? `${formatMON(stats.sentVolume)} sent · ${formatMON(
+                  stats.receivedVolume ?? 0
+                )} received · ${formatSignedMON(stats.netVolume ?? 0)} net`
+              : "Total MON volume in transactions"
+          }
           icon={<DollarSign className="h-4 w-4" />}
           variant="success"
         />
@@ -104,13 +143,64 @@ export const StatsDashboard: React.FC<StatsDashboardProps> = ({
           variant={stats.isDay1User ? "success" : "default"}
           highlight={stats.isDay1User}
         />
+
+        <MetricCard
+          title="Failed Transactions"
+          value={stats.failedTxCount ?? 0}
+          description={`${formatMON(
+            stats.failedGasSpentMON ?? 0
+          )} MON wasted on gas`}
+          icon={<XCircle className="h-4 w-4" />}
+          variant="default"
+        />
+
+        {stats.uniqueCounterparties !== undefined && (
+          <MetricCard
+            title="Counterparties"
+            value={stats.uniqueCounterparties}
+            description={`${formatNumber(
+              stats.uniqueContracts ?? 0
+            )} contracts called · ${formatNumber(
+              stats.contractsDeployed ?? 0
+            )} deployed`}
+            icon={<Network className="h-4 w-4" />}
+            variant="default"
+          />
+        )}
       </div>
 
       {/* Activity Chart */}
       <TransactionChart
         data={stats.transactionHistory || []}
+        nftValueHistory={stats.nftValueHistory}
         isLoading={isLoading}
       />
+
+      {/* ERC-20 Token Activity */}
+      {stats.tokenTransferCount !== undefined && (
+        <TokenActivityCard
+          tokenTransferCount={stats.tokenTransferCount}
+          uniqueTokens={stats.uniqueTokens ?? 0}
+          topTokens={stats.topTokens || []}
+        />
+      )}
+
+      {/* Protocol Breakdown */}
+      {stats.protocols && stats.protocols.length > 0 && (
+        <TopDappsChart
+          protocols={stats.protocols}
+          distinctProtocols={stats.distinctProtocols ?? 0}
+        />
+      )}
+
+      {/* NFT Holdings */}
+      {stats.nftHoldings && stats.nftHoldings.length > 0 && (
+        <NFTHoldingsTable
+          holdings={stats.nftHoldings}
+          totalValue={stats.nftBagValue}
+          valuation={stats.nftValuation}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,220 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/atoms/Table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { Button } from "@/components/atoms/Button";
+import { Input } from "@/components/atoms/Input";
+import {
+  SuspiciousActivityFilters,
+  buildSuspiciousActivityParams,
+  useSuspiciousWallets,
+} from "@/hooks/useSuspiciousActivity";
+import { formatWalletAddress } from "@/lib/scoring";
+import { formatNumber } from "@/lib/utils";
+import { AlertCircle, Download, Loader2, ShieldAlert } from "lucide-react";
+
+/**
+ * Admin view of stored suspicious activity: event counts per wallet,
+ * filters and a CSV export
+ * @returns SuspiciousActivityAdmin component
+ */
+export const SuspiciousActivityAdmin: React.FC = () => {
+  const [keyInput, setKeyInput] = React.useState("");
+  const [adminKey, setAdminKey] = React.useState("");
+  const [draft, setDraft] = React.useState<SuspiciousActivityFilters>({});
+  const [filters, setFilters] = React.useState<SuspiciousActivityFilters>({});
+  const [exportError, setExportError] = React.useState<string | null>(null);
+  const [isExporting, setIsExporting] = React.useState(false);
+
+  const {
+    data: wallets,
+    isLoading,
+    error,
+  } = useSuspiciousWallets(adminKey, filters);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    setAdminKey(keyInput.trim());
+    setFilters(draft);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+
+    try {
+      const searchParams = buildSuspiciousActivityParams(filters);
+      searchParams.append("format", "csv");
+      const response = await fetch(
+        `/api/admin/suspicious-activity?${searchParams.toString()}`,
+        { headers: { "x-admin-key": adminKey } }
+      );
+
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || "Failed to export suspicious activity");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = "suspicious-activity.csv";
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setExportError(
+        err instanceof Error
+          ? err.message
+          : "Failed to export suspicious activity"
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const updateDraft =
+    (key: keyof SuspiciousActivityFilters) =>
+    (event: React.ChangeEvent<HTMLInputElement>) =>
+      setDraft((current) => ({ ...current, [key]: event.target.value }));
+
+  const message = error?.message || exportError;
+
+  return (
+    <div className="space-y-6">
+      {/* Key and Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-purple-500" />
+            Suspicious Activity
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Wallets with stored suspicious NFT events, such as failed
+            collection checks and capped bag values.
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="password"
+              value={keyInput}
+              onChange={(e) => setKeyInput(e.target.value)}
+              placeholder="Admin API key"
+              autoComplete="off"
+            />
+            <div className="grid gap-4 md:grid-cols-3">
+              <Input
+                value={draft.wallet || ""}
+                onChange={updateDraft("wallet")}
+                placeholder="Wallet (0x...)"
+                className="font-mono"
+              />
+              <Input
+                value={draft.collection || ""}
+                onChange={updateDraft("collection")}
+                placeholder="Collection"
+              />
+              <Input
+                value={draft.reason || ""}
+                onChange={updateDraft("reason")}
+                placeholder="Reason"
+              />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button type="submit" disabled={!keyInput.trim() || isLoading}>
+                {isLoading ? (
+                  <>
+                    <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                    Loading...
+                  </>
+                ) : (
+                  "Show wallets"
+                )}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleExport}
+                disabled={!adminKey || isExporting}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {message && (
+        <Card className="border-red-500/20 bg-red-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 text-red-400">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">{message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Per-Wallet Counts */}
+      {wallets && (
+        <Card>
+          <CardContent className="pt-6">
+            {wallets.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No suspicious activity matches these filters.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Wallet</TableHead>
+                    <TableHead className="text-right">Events</TableHead>
+                    <TableHead className="text-right">Last seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {wallets.map((wallet) => (
+                    <TableRow key={wallet.walletAddress}>
+                      <TableCell>
+                        <Link
+                          href={`/wallet/${wallet.walletAddress}`}
+                          className="font-mono text-purple-400 hover:text-purple-300 hover:underline"
+                        >
+                          {formatWalletAddress(wallet.walletAddress)}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatNumber(wallet.eventCount)}
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">
+                        {wallet.lastSeenAt
+                          ? new Date(wallet.lastSeenAt).toLocaleString()
+                          : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,314 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/atoms/Table";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { Button } from "@/components/atoms/Button";
+import { Input } from "@/components/atoms/Input";
+import { TransactionChart } from "@/components/molecules/TransactionChart";
+import { useCompareWallets } from "@/hooks/useCompareWallets";
+import {
+  COMPARISON_METRICS,
+  ComparisonFormat,
+  MAX_COMPARE_WALLETS,
+  MIN_COMPARE_WALLETS,
+} from "@/lib/compare";
+import { formatWalletAddress } from "@/lib/scoring";
+import { cn, formatMON, formatNumber } from "@/lib/utils";
+import { AlertCircle, GitCompare, Info, Loader2, Trophy } from "lucide-react";
+
+// One line color per compared wallet
+const SERIES_COLORS = ["#8b5cf6", "#10b981", "#f59e0b", "#3b82f6"];
+
+/**
+ * Format a comparison metric value for display
+ */
+const formatMetricValue = (value: number, format: ComparisonFormat) => {
+  switch (format) {
+    case "mon":
+      return `${formatMON(value)} MON`;
+    case "nft":
+      return `${formatNumber(value)} MON`;
+    case "days":
+      return `${value} days`;
+    case "score":
+      return value.toFixed(1);
+    case "boolean":
+      return value ? "Yes" : "No";
+    default:
+      return value.toLocaleString();
+  }
+};
+
+/**
+ * WalletComparison component props interface
+ */
+export interface WalletComparisonProps {
+  /** Wallets to compare on first render (from the URL) */
+  initialWallets: string[];
+}
+
+/**
+ * Side-by-side comparison of two to four wallets
+ * @param initialWallets - Wallets to compare on first render
+ * @returns WalletComparison component
+ */
+export const WalletComparison: React.FC<WalletComparisonProps> = ({
+  initialWallets,
+}) => {
+  const router = useRouter();
+  const [inputs, setInputs] = React.useState<string[]>(() =>
+    Array.from(
+      { length: MAX_COMPARE_WALLETS },
+      (_, index) => initialWallets[index] || ""
+    )
+  );
+  const [wallets, setWallets] = React.useState<string[]>(initialWallets);
+  const [formError, setFormError] = React.useState<string | null>(null);
+
+  const { data, isLoading, error } = useCompareWallets(wallets);
+
+  const handleInputChange = (index: number, value: string) => {
+    setInputs((current) =>
+      current.map((input, i) => (i === index ? value : input))
+    );
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const addresses = inputs.map((input) => input.trim()).filter(Boolean);
+    if (addresses.length < MIN_COMPARE_WALLETS) {
+      setFormError(`Enter at least ${MIN_COMPARE_WALLETS} wallet addresses`);
+      return;
+    }
+    if (addresses.some((address) => !/^0x[a-fA-F0-9]{40}$/.test(address))) {
+      setFormError(
+        "Please enter valid EVM wallet addresses (0x followed by 40 hex characters)"
+      );
+      return;
+    }
+
+    setFormError(null);
+    setWallets(addresses);
+    router.replace(`/compare?wallets=${addresses.join(",")}`);
+  };
+
+  const compared = data?.wallets || [];
+  const winners = data?.winners || {};
+
+  return (
+    <div className="space-y-6">
+      {/* Wallet Inputs */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-purple-500" />
+            Compare Wallets
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            Compare {MIN_COMPARE_WALLETS} to {MAX_COMPARE_WALLETS} wallets side
+            by side
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {inputs.map((input, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: SERIES_COLORS[index] }}
+                  />
+                  <Input
+                    placeholder={`Wallet ${index + 1}${
+                      index >= MIN_COMPARE_WALLETS ? " (optional)" : ""
+                    }`}
+                    value={input}
+                    onChange={(e) => handleInputChange(index, e.target.value)}
+                    className="font-mono"
+                  />
+                </div>
+              ))}
+            </div>
+            {formError && (
+              <div className="flex items-center space-x-2 text-red-400 text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{formError}</span>
+              </div>
+            )}
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin mr-2" />
+                  Comparing...
+                </>
+              ) : (
+                "Compare"
+              )}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {/* Error Display */}
+      {error && (
+        <Card className="border-red-500/20 bg-red-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 text-red-400">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">{error.message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Wallets Not Yet Checked */}
+      {data && data.notFound.length > 0 && (
+        <Card className="border-blue-500/20 bg-blue-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-start space-x-2 text-blue-400">
+              <Info className="h-5 w-5 flex-shrink-0" />
+              <div className="text-sm space-y-1">
+                <p className="font-medium">Not checked yet</p>
+                {data.notFound.map((address) => (
+                  <p key={address}>
+                    <Link
+                      href={`/wallet/${address}`}
+                      className="font-mono hover:underline"
+                    >
+                      {formatWalletAddress(address)}
+                    </Link>{" "}
+                    has no stored stats. Open its profile and refresh from
+                    chain first.
+                  </p>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Comparison Table */}
+      {compared.length > 0 && (
+        <Card>
+          <CardContent className="pt-6">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Metric</TableHead>
+                  {compared.map((wallet) => (
+                    <TableHead key={wallet.walletAddress} className="text-right">
+                      <Link
+                        href={`/wallet/${wallet.walletAddress}`}
+                        className="inline-flex items-center gap-2 font-mono hover:text-purple-400 hover:underline"
+                      >
+                        <span
+                          className="h-2 w-2 rounded-full"
+                          style={{
+                            backgroundColor:
+                              SERIES_COLORS[
+                                wallets.findIndex(
+                                  (w) =>
+                                    w.toLowerCase() ===
+                                    wallet.walletAddress.toLowerCase()
+                                )
+                              ],
+                          }}
+                        />
+                        {formatWalletAddress(wallet.walletAddress)}
+                      </Link>
+                      <div className="text-xs font-normal">
+                        #{wallet.ranking.rank} of {wallet.ranking.totalUsers}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(["metrics", "scores"] as const).map((group) => (
+                  <React.Fragment key={group}>
+                    <TableRow className="hover:bg-transparent">
+                      <TableCell
+                        colSpan={compared.length + 1}
+                        className="text-xs uppercase tracking-wide text-muted-foreground pt-6"
+                      >
+                        {group === "metrics" ? "Metrics" : "Scores"}
+                      </TableCell>
+                    </TableRow>
+                    {COMPARISON_METRICS.filter(
+                      (metric) => metric.group === group
+                    ).map((metric) => (
+                      <TableRow key={metric.key}>
+                        <TableCell className="text-muted-foreground">
+                          {metric.label}
+                        </TableCell>
+                        {compared.map((wallet) => {
+                          const isWinner = winners[metric.key]?.includes(
+                            wallet.walletAddress
+                          );
+
+                          return (
+                            <TableCell
+                              key={wallet.walletAddress}
+                              className={cn(
+                                "text-right",
+                                isWinner &&
+                                  "bg-purple-500/15 font-bold text-purple-300"
+                              )}
+                            >
+                              <span className="inline-flex items-center gap-1">
+                                {isWinner && (
+                                  <Trophy className="h-3 w-3 text-yellow-500" />
+                                )}
+                                {formatMetricValue(
+                                  metric.getValue(wallet.stats),
+                                  metric.format
+                                )}
+                              </span>
+                            </TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </React.Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Overlaid Activity */}
+      {compared.length > 0 && (
+        <TransactionChart
+          series={compared.map((wallet) => ({
+            name: formatWalletAddress(wallet.walletAddress),
+            color:
+              SERIES_COLORS[
+                wallets.findIndex(
+                  (w) =>
+                    w.toLowerCase() === wallet.walletAddress.toLowerCase()
+                )
+              ],
+            data: wallet.stats.transactionHistory,
+          }))}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/atoms/Card";
+import { Button } from "@/components/atoms/Button";
+import { StatsDashboard } from "@/components/organisms/StatsDashboard";
+import {
+  ScoreBreakdownCard,
+  ScoreBreakdownItem,
+} from "@/components/molecules/ScoreBreakdownCard";
+import { useRefreshWalletStats } from "@/hooks/useWalletStats";
+import { WalletStats } from "@/types";
+import {
+  AlertCircle,
+  ArrowLeft,
+  Info,
+  RefreshCw,
+  TrendingUp,
+  Wallet,
+} from "lucide-react";
+
+/**
+ * WalletProfile component props interface
+ */
+export interface WalletProfileProps {
+  /** Wallet address being shown */
+  walletAddress: string;
+  /** Stored wallet statistics, or null if the wallet hasn't been checked */
+  stats: WalletStats | null;
+  /** Leaderboard standing from stored data */
+  ranking: { rank: number; totalUsers: number; topPercent: number } | null;
+  /** Weighted score components */
+  scoreBreakdown: ScoreBreakdownItem[];
+  /** ISO timestamp of the last sync */
+  lastUpdated: string | null;
+}
+
+/**
+ * Shareable wallet profile with a "refresh from chain" action
+ * @param walletAddress - Wallet address being shown
+ * @param stats - Stored wallet statistics
+ * @param ranking - Leaderboard standing
+ * @param scoreBreakdown - Weighted score components
+ * @param lastUpdated - ISO timestamp of the last sync
+ * @returns WalletProfile component
+ */
+export const WalletProfile: React.FC<WalletProfileProps> = ({
+  walletAddress,
+  stats,
+  ranking,
+  scoreBreakdown,
+  lastUpdated,
+}) => {
+  const router = useRouter();
+  const refresh = useRefreshWalletStats(walletAddress);
+
+  const handleRefresh = () => {
+    refresh.mutate(undefined, {
+      // Re-render the server page so it reads the freshly stored data
+      onSuccess: () => router.refresh(),
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div className="space-y-1">
+              <Link
+                href="/"
+                className="inline-flex items-center gap-1 text-sm text-muted-foreground hover:text-purple-400 transition-colors"
+              >
+                <ArrowLeft className="h-3 w-3" />
+                Back to leaderboard
+              </Link>
+              <CardTitle className="flex items-center gap-2 font-mono break-all">
+                <Wallet className="h-5 w-5 text-purple-500 flex-shrink-0" />
+                {walletAddress}
+              </CardTitle>
+              {lastUpdated && (
+                <p className="text-xs text-muted-foreground">
+                  Last synced {new Date(lastUpdated).toLocaleString()}
+                </p>
+              )}
+            </div>
+            <Button
+              onClick={handleRefresh}
+              disabled={refresh.isPending}
+              className="flex items-center gap-2"
+            >
+              <RefreshCw
+                className={refresh.isPending ? "h-4 w-4 animate-spin" : "h-4 w-4"}
+              />
+              {refresh.isPending ? "Refreshing..." : "Refresh from chain"}
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {/* Refresh Error */}
+      {refresh.error && (
+        <Card className="border-red-500/20 bg-red-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 text-red-400">
+              <AlertCircle className="h-5 w-5" />
+              <p className="text-sm">{refresh.error.message}</p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Not Indexed Yet */}
+      {!stats && (
+        <Card className="border-blue-500/20 bg-blue-500/10">
+          <CardContent className="pt-6">
+            <div className="flex items-center space-x-2 text-blue-400">
+              <Info className="h-5 w-5" />
+              <div>
+                <p className="font-medium">Not Checked Yet</p>
+                <p className="text-sm">
+                  This wallet isn&apos;t on the leaderboard yet. Refresh from
+                  chain to fetch its on-chain activity.
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Ranking */}
+      {ranking && stats?.scores && (
+        <Card className="border-purple-500/20 bg-purple-500/5">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-purple-400">
+              <TrendingUp className="h-5 w-5" />
+              Ranking
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-purple-400">
+                  #{ranking.rank}
+                </div>
+                <div className="text-sm text-muted-foreground">Position</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-purple-400">
+                  Top {ranking.topPercent}%
+                </div>
+                <div className="text-sm text-muted-foreground">Percentile</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-purple-400">
+                  {stats.scores.totalScore.toFixed(1)}
+                </div>
+                <div className="text-sm text-muted-foreground">Total Score</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-purple-400">
+                  {ranking.totalUsers}
+                </div>
+                <div className="text-sm text-muted-foreground">Total Users</div>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {stats && <StatsDashboard stats={stats} />}
+
+      {scoreBreakdown.length > 0 && (
+        <ScoreBreakdownCard items={scoreBreakdown} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import { useQuery } from "@tanstack/react-query";
+import { ComparedWallet, MIN_COMPARE_WALLETS } from "@/lib/compare";
+
+interface CompareResponse {
+  wallets: ComparedWallet[];
+  notFound: string[];
+  winners: Record<string, string[]>;
+}
+
+/**
+ * Fetch stored stats for several wallets from the compare API
+ * @param wallets - Wallet addresses to compare
+ * @param signal - AbortSignal for request cancellation
+ * @returns Promise resolving to the comparison
+ */
+async function fetchComparison(
+  wallets: string[],
+  signal?: AbortSignal
+): Promise<CompareResponse> {
+  const searchParams = new URLSearchParams({ wallets: wallets.join(",") });
+  const response = await fetch(`/api/compare?${searchParams.toString()}`, {
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to compare wallets");
+  }
+
+  return response.json();
+}
+
+/**
+ * Custom hook for comparing wallets side by side
+ * @param wallets - Wallet addresses to compare
+ * @returns Query result with the comparison
+ */
+export function useCompareWallets(wallets: string[]) {
+  return useQuery({
+    queryKey: ["compareWallets", ...wallets.map((w) => w.toLowerCase())],
+    queryFn: ({ signal }) => fetchComparison(wallets, signal),
+    enabled: wallets.length >= MIN_COMPARE_WALLETS,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,41 @@
+import { useQuery } from "@tanstack/react-query";
+import { PortfolioStats } from "@/types";
+import { MIN_PORTFOLIO_WALLETS } from "@/lib/portfolio";
+
+/**
+ * Fetch combined stats for several wallets from the portfolio API
+ * @param wallets - Wallet addresses in the portfolio
+ * @param signal - AbortSignal for request cancellation
+ * @returns Promise resolving to the portfolio stats
+ */
+async function fetchPortfolioStats(
+  wallets: string[],
+  signal?: AbortSignal
+): Promise<PortfolioStats> {
+  const searchParams = new URLSearchParams({ wallets: wallets.join(",") });
+  const response = await fetch(`/api/portfolio?${searchParams.toString()}`, {
+    signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch portfolio stats");
+  }
+
+  return response.json();
+}
+
+/**
+ * Custom hook for fetching combined stats for a multi-wallet portfolio
+ * @param wallets - Wallet addresses in the portfolio
+ * @returns Query result with the portfolio stats
+ */
+export function usePortfolioStats(wallets: string[]) {
+  return useQuery({
+    queryKey: ["portfolioStats", ...wallets.map((w) => w.toLowerCase())],
+    queryFn: ({ signal }) => fetchPortfolioStats(wallets, signal),
+    enabled: wallets.length >= MIN_PORTFOLIO_WALLETS,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    retry: false,
+  });
+}
@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+
+/**
+ * A wallet's suspicious event count, as returned by the admin API
+ */
+export interface SuspiciousWalletCount {
+  walletAddress: string;
+  eventCount: number;
+  lastSeenAt: string | null;
+}
+
+/**
+ * Filters accepted by the suspicious activity admin API
+ */
+export interface SuspiciousActivityFilters {
+  wallet?: string;
+  collection?: string;
+  reason?: string;
+}
+
+/**
+ * Build the admin API query string for a set of filters
+ * @param filters - Filters to apply; empty values are left out
+ * @returns URL search params
+ */
+export function buildSuspiciousActivityParams(
+  filters: SuspiciousActivityFilters
+): URLSearchParams {
+  const searchParams = new URLSearchParams();
+
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value && value.trim()) searchParams.append(key, value.trim());
+  });
+
+  return searchParams;
+}
+
+/**
+ * Fetch suspicious event counts per wallet from the admin API
+ * @param adminKey - Admin API key
+ * @param filters - Filters to apply
+ * @param signal - AbortSignal for request cancellation
+ * @returns Promise resolving to the wallet counts
+ */
+async function fetchSuspiciousWallets(
+  adminKey: string,
+  filters: SuspiciousActivityFilters,
+  signal?: AbortSignal
+): Promise<SuspiciousWalletCount[]> {
+  const searchParams = buildSuspiciousActivityParams(filters);
+  const response = await fetch(
+    `/api/admin/suspicious-activity/wallets?${searchParams.toString()}`,
+    { headers: { "x-admin-key": adminKey }, signal }
+  );
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to fetch suspicious activity");
+  }
+
+  const data = await response.json();
+  return data.wallets;
+}
+
+/**
+ * Custom hook for fetching suspicious event counts per wallet
+ * @param adminKey - Admin API key; the query waits until one is entered
+ * @param filters - Filters to apply
+ * @returns Query result with the wallet counts
+ */
+export function useSuspiciousWallets(
+  adminKey: string,
+  filters: SuspiciousActivityFilters
+) {
+  return useQuery({
+    queryKey: [
+      "suspiciousWallets",
+      adminKey,
+      filters.wallet,
+      filters.collection,
+      filters.reason,
+    ],
+    queryFn: ({ signal }) => fetchSuspiciousWallets(adminKey, filters, signal),
+    enabled: adminKey.length > 0,
+    staleTime: 30 * 1000, // 30 seconds
+    retry: false,
+  });
+}
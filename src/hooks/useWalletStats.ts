@@ -1,4 +1,8 @@
-import { useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+} from "@tanstack/react-query";
 import { WalletStats } from "@/types";
 
 // Custom error type for API errors
@@ -69,3 +73,20 @@ export function useWalletStats(
     },
   });
 }
+
+/**
+ * Custom hook for re-syncing a wallet's statistics from the chain on demand
+ * @param walletAddress - Wallet address to refresh
+ * @returns Mutation that fetches fresh stats and updates the cached query
+ */
+export function useRefreshWalletStats(walletAddress: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => fetchWalletStats(walletAddress),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["walletStats", walletAddress], data);
+      queryClient.invalidateQueries({ queryKey: ["leaderboard"] });
+    },
+  });
+}
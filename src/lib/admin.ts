@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+
+/**
+ * Check whether a request carries the admin API key
+ * Accepts either an "Authorization: Bearer <key>" or an "x-admin-key" header
+ * @param request - Next.js request object
+ * @returns True if the request is authorized for admin routes
+ */
+export function isAdminRequest(request: NextRequest): boolean {
+  const adminKey = process.env.ADMIN_API_KEY;
+
+  // Admin routes are disabled entirely when no key is configured
+  if (!adminKey) return false;
+
+  const authHeader = request.headers.get("authorization");
+  const bearerToken = authHeader?.startsWith("Bearer ")
+    ? authHeader.slice("Bearer ".length)
+    : null;
+  const headerKey = request.headers.get("x-admin-key");
+
+  return bearerToken === adminKey || headerKey === adminKey;
+}
+
+/**
+ * Standard response for requests without a valid admin key
+ */
+export function unauthorizedResponse() {
+  return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+}
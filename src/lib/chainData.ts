@@ -0,0 +1,277 @@
+import {
+  EtherscanInternalTx,
+  EtherscanResponse,
+  EtherscanTokenTx,
+  EtherscanTx,
+} from "@/types";
+
+// Maximum records returned by one txlist, txlistinternal or tokentx request
+export const TRANSACTION_BATCH_SIZE = 10000;
+
+/**
+ * A source of wallet transaction history. Every provider returns
+ * Etherscan-shaped records so the metric calculations don't depend on
+ * where the data came from.
+ */
+export interface ChainDataProvider {
+  /** Name used in CHAIN_DATA_PROVIDERS and in logs */
+  name: string;
+  /**
+   * Fetch up to TRANSACTION_BATCH_SIZE transactions, oldest first
+   * @param walletAddress - Wallet address to fetch transactions for
+   * @param startBlock - Starting block number (0 for first request)
+   * @param signal - AbortSignal for request cancellation
+   */
+  fetchTransactionsBatch: (
+    walletAddress: string,
+    startBlock: number,
+    signal?: AbortSignal
+  ) => Promise<Record<string, string>[]>;
+  /**
+   * Fetch up to TRANSACTION_BATCH_SIZE ERC-20 token transfers, oldest first
+   * @param walletAddress - Wallet address to fetch transfers for
+   * @param startBlock - Starting block number (0 for first request)
+   * @param signal - AbortSignal for request cancellation
+   */
+  fetchTokenTransfersBatch: (
+    walletAddress: string,
+    startBlock: number,
+    signal?: AbortSignal
+  ) => Promise<Record<string, string>[]>;
+  /**
+   * Fetch up to TRANSACTION_BATCH_SIZE internal transactions, oldest first
+   * @param walletAddress - Wallet address to fetch internal transactions for
+   * @param startBlock - Starting block number (0 for first request)
+   * @param signal - AbortSignal for request cancellation
+   */
+  fetchInternalTransactionsBatch: (
+    walletAddress: string,
+    startBlock: number,
+    signal?: AbortSignal
+  ) => Promise<Record<string, string>[]>;
+}
+
+/**
+ * Check whether an API message means the wallet simply has no transactions
+ * @param message - Message returned by the API
+ * @returns True for "No transactions found" style messages
+ */
+export function isNoTransactionsMessage(message: string): boolean {
+  return (
+    message.includes("No transactions found") ||
+    message.includes("No records found") ||
+    message.includes("No data found") ||
+    message.toLowerCase().includes("no transactions")
+  );
+}
+
+/**
+ * Fetch one batch from an Etherscan-compatible account endpoint, retrying
+ * with exponential backoff
+ * @param providerName - Provider name used in errors and logs
+ * @param url - Full request URL
+ * @param startBlock - Starting block number, for logging
+ * @param toRecord - Maps a result item to a flat record
+ * @param signal - AbortSignal for request cancellation
+ * @returns Array of records
+ */
+async function fetchAccountBatch<T>(
+  providerName: string,
+  url: string,
+  startBlock: number,
+  toRecord: (item: T) => Record<string, string>,
+  signal?: AbortSignal
+): Promise<Record<string, string>[]> {
+  const maxRetries = 3;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      // Check if request was cancelled
+      if (signal?.aborted) {
+        throw new Error("Request was cancelled");
+      }
+
+      console.log(
+        `${providerName} attempt ${attempt}/${maxRetries} for block ${startBlock}`
+      );
+
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          Accept: "application/json",
+        },
+        signal, // Pass the abort signal
+      });
+
+      if (!response.ok) {
+        throw new Error(
+          `${providerName} API error: ${response.status} ${response.statusText}`
+        );
+      }
+
+      const data: EtherscanResponse<T> = await response.json();
+
+      if (data.status !== "1") {
+        // Check if this is a "No transactions found" error
+        if (data.message && isNoTransactionsMessage(data.message)) {
+          console.log(
+            `${providerName} returned '${data.message}' - stopping retries`
+          );
+          return []; // Return empty array instead of throwing error
+        }
+        const detail =
+          typeof data.result === "string" && data.result
+            ? `${data.message} (${data.result})`
+            : data.message;
+        throw new Error(`${providerName} API error: ${detail}`);
+      }
+
+      if (!Array.isArray(data.result)) {
+        throw new Error(`${providerName} API error: unexpected result`);
+      }
+
+      return data.result.map(toRecord);
+    } catch (error) {
+      lastError = error as Error;
+
+      // If request was cancelled, don't retry
+      if (
+        signal?.aborted ||
+        (error instanceof Error && error.name === "AbortError")
+      ) {
+        console.log(`Request cancelled for block ${startBlock}`);
+        throw error;
+      }
+
+      console.log(
+        `${providerName} attempt ${attempt} failed for block ${startBlock}:`,
+        error
+      );
+
+      // Check if this is a "No transactions found" error - don't retry
+      if (isNoTransactionsMessage(lastError.message)) {
+        console.log(`Stopping retries due to '${lastError.message}' error`);
+        throw lastError;
+      }
+
+      // If this is the last attempt, throw the error
+      if (attempt === maxRetries) {
+        throw lastError;
+      }
+
+      // Wait before retrying (exponential backoff)
+      const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000); // 1s, 2s, 4s, max 5s
+      console.log(`Waiting ${delay}ms before retry...`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError || new Error("Unknown error occurred");
+}
+
+/**
+ * Fetch one batch from an Etherscan-compatible txlist endpoint
+ * @param providerName - Provider name used in errors and logs
+ * @param url - Full txlist request URL
+ * @param startBlock - Starting block number, for logging
+ * @param signal - AbortSignal for request cancellation
+ * @returns Array of transactions
+ */
+export function fetchTxlistBatch(
+  providerName: string,
+  url: string,
+  startBlock: number,
+  signal?: AbortSignal
+): Promise<Record<string, string>[]> {
+  return fetchAccountBatch<EtherscanTx>(
+    providerName,
+    url,
+    startBlock,
+    (tx) => ({
+      hash: tx.hash,
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      gas: tx.gas,
+      gasPrice: tx.gasPrice,
+      gasUsed: tx.gasUsed || "",
+      effectiveGasPrice: tx.effectiveGasPrice || "",
+      // Normalize both failure flags into a single "1"/"0" field
+      isError: tx.isError === "1" || tx.txreceipt_status === "0" ? "1" : "0",
+      // Keep only the selector, not the full call data
+      methodId: tx.methodId || (tx.input || "").slice(0, 10),
+      contractAddress: tx.contractAddress || "",
+      timeStamp: tx.timeStamp,
+      blockNumber: tx.blockNumber,
+    }),
+    signal
+  );
+}
+
+/**
+ * Fetch one batch from an Etherscan-compatible tokentx endpoint
+ * @param providerName - Provider name used in errors and logs
+ * @param url - Full tokentx request URL
+ * @param startBlock - Starting block number, for logging
+ * @param signal - AbortSignal for request cancellation
+ * @returns Array of ERC-20 token transfers
+ */
+export function fetchTokentxBatch(
+  providerName: string,
+  url: string,
+  startBlock: number,
+  signal?: AbortSignal
+): Promise<Record<string, string>[]> {
+  return fetchAccountBatch<EtherscanTokenTx>(
+    providerName,
+    url,
+    startBlock,
+    (transfer) => ({
+      hash: transfer.hash,
+      logIndex: transfer.logIndex || "",
+      from: transfer.from,
+      to: transfer.to,
+      value: transfer.value,
+      contractAddress: transfer.contractAddress,
+      tokenName: transfer.tokenName || "",
+      tokenSymbol: transfer.tokenSymbol || "",
+      tokenDecimal: transfer.tokenDecimal || "0",
+      timeStamp: transfer.timeStamp,
+      blockNumber: transfer.blockNumber,
+    }),
+    signal
+  );
+}
+
+/**
+ * Fetch one batch from an Etherscan-compatible txlistinternal endpoint
+ * @param providerName - Provider name used in errors and logs
+ * @param url - Full txlistinternal request URL
+ * @param startBlock - Starting block number, for logging
+ * @param signal - AbortSignal for request cancellation
+ * @returns Array of internal transactions
+ */
+export function fetchTxlistinternalBatch(
+  providerName: string,
+  url: string,
+  startBlock: number,
+  signal?: AbortSignal
+): Promise<Record<string, string>[]> {
+  return fetchAccountBatch<EtherscanInternalTx>(
+    providerName,
+    url,
+    startBlock,
+    (tx) => ({
+      hash: tx.hash,
+      traceId: tx.traceId || "",
+      from: tx.from,
+      to: tx.to,
+      value: tx.value,
+      isError: tx.isError === "1" ? "1" : "0",
+      timeStamp: tx.timeStamp,
+      blockNumber: tx.blockNumber,
+    }),
+    signal
+  );
+}
@@ -0,0 +1,259 @@
+import {
+  ChainDataProvider,
+  TRANSACTION_BATCH_SIZE,
+  isNoTransactionsMessage,
+} from "@/lib/chainData";
+import { createEtherscanProvider } from "@/lib/etherscan";
+import { createIndexerProvider } from "@/lib/indexer";
+
+export const CHAIN_DATA_NOT_CONFIGURED = "No chain data provider is configured";
+
+// Providers that can be listed in CHAIN_DATA_PROVIDERS
+const PROVIDER_FACTORIES: Record<string, () => ChainDataProvider | null> = {
+  etherscan: createEtherscanProvider,
+  indexer: createIndexerProvider,
+};
+
+/**
+ * Get the configured chain data providers in failover order
+ * CHAIN_DATA_PROVIDERS is a comma-separated list of provider names
+ * (default "etherscan"). Providers missing their settings are skipped.
+ * @returns Providers to try, first to last
+ */
+export function getChainDataProviders(): ChainDataProvider[] {
+  const names = (process.env.CHAIN_DATA_PROVIDERS || "etherscan")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  const providers: ChainDataProvider[] = [];
+  names.forEach((name) => {
+    const factory = PROVIDER_FACTORIES[name];
+    if (!factory) {
+      console.warn(
+        `Unknown chain data provider in CHAIN_DATA_PROVIDERS: ${name}`
+      );
+      return;
+    }
+
+    const provider = factory();
+    if (!provider) {
+      console.warn(`Chain data provider ${name} is not configured - skipping`);
+      return;
+    }
+
+    providers.push(provider);
+  });
+
+  return providers;
+}
+
+// Fetches one batch of records from a single provider
+type BatchFetcher = (
+  provider: ChainDataProvider,
+  startBlock: number
+) => Promise<Record<string, string>[]>;
+
+/**
+ * Fetch one batch, trying each provider in order until one succeeds
+ * @param providers - Providers in failover order
+ * @param fetchBatch - Fetches the batch from one provider
+ * @param startBlock - Starting block number
+ * @param signal - AbortSignal for request cancellation
+ * @returns Array of records
+ */
+async function fetchBatchWithFailover(
+  providers: ChainDataProvider[],
+  fetchBatch: BatchFetcher,
+  startBlock: number,
+  signal?: AbortSignal
+): Promise<Record<string, string>[]> {
+  let lastError: Error | null = null;
+
+  for (const provider of providers) {
+    try {
+      return await fetchBatch(provider, startBlock);
+    } catch (error) {
+      // Don't fail over a cancelled request
+      if (
+        signal?.aborted ||
+        (error instanceof Error && error.name === "AbortError")
+      ) {
+        throw error;
+      }
+
+      lastError = error as Error;
+      console.warn(
+        `Chain data provider ${provider.name} failed for block ${startBlock}:`,
+        error
+      );
+    }
+  }
+
+  throw lastError || new Error(CHAIN_DATA_NOT_CONFIGURED);
+}
+
+/**
+ * Fetch every record using startblock pagination, failing over between the
+ * configured providers batch by batch
+ * @param fetchBatch - Fetches one batch from a provider
+ * @param label - What is being fetched, for logging
+ * @param signal - AbortSignal for request cancellation
+ * @param fromBlock - Block to start from (0 fetches the full history)
+ * @returns Array of all records
+ */
+async function fetchAllBatches(
+  fetchBatch: BatchFetcher,
+  label: string,
+  signal?: AbortSignal,
+  fromBlock: number = 0
+): Promise<Record<string, string>[]> {
+  const providers = getChainDataProviders();
+  if (providers.length === 0) {
+    throw new Error(CHAIN_DATA_NOT_CONFIGURED);
+  }
+
+  try {
+    const allTransactions: Record<string, string>[] = [];
+    let startBlock = fromBlock;
+    let batchCount = 0;
+    const maxBatches = 100; // Increased limit for wallets with many transactions
+
+    console.log(
+      `Starting to fetch ${label} from block ${fromBlock} using startblock pagination...`
+    );
+
+    while (batchCount < maxBatches) {
+      try {
+        batchCount++;
+        console.log(
+          `Fetching batch ${batchCount} starting from block ${startBlock}...`
+        );
+
+        const batchTransactions = await fetchBatchWithFailover(
+          providers,
+          fetchBatch,
+          startBlock,
+          signal
+        );
+
+        if (batchTransactions.length === 0) {
+          if (batchCount === 1) {
+            // If the first batch returns empty, there is nothing new since fromBlock
+            console.log(
+              `No ${label} found for this wallet address since block ${fromBlock}`
+            );
+            return [];
+          } else {
+            // If subsequent batches return empty, we've reached the end
+            console.log(`No more ${label} found in batch ${batchCount}`);
+            break;
+          }
+        }
+
+        allTransactions.push(...batchTransactions);
+
+        // If we got a partial batch, we've reached the end
+        if (batchTransactions.length < TRANSACTION_BATCH_SIZE) {
+          console.log(
+            `Reached end of ${label} (got ${batchTransactions.length} < ${TRANSACTION_BATCH_SIZE})`
+          );
+          break;
+        }
+
+        // Get the last transaction's block number and add 1 for the next startblock
+        const lastTransaction = batchTransactions[batchTransactions.length - 1];
+        startBlock = parseInt(lastTransaction.blockNumber) + 1;
+
+        console.log(`Next startblock will be: ${startBlock}`);
+      } catch (error) {
+        console.error(`Error fetching batch ${batchCount}:`, error);
+
+        // Check if this is a "No transactions found" error
+        if (error instanceof Error && isNoTransactionsMessage(error.message)) {
+          console.log(`Stopping due to '${error.message}' error`);
+          return []; // Return empty array immediately
+        }
+
+        // For other errors, continue with what we have so far
+        break;
+      }
+    }
+
+    console.log(
+      `Total ${label} fetched: ${allTransactions.length} in ${batchCount} batches`
+    );
+    return allTransactions;
+  } catch (error) {
+    console.error(`Error fetching ${label}:`, error);
+    return [];
+  }
+}
+
+/**
+ * Fetch all native transactions (txlist) for a wallet
+ * @param walletAddress - Wallet address to fetch transactions for
+ * @param signal - AbortSignal for request cancellation
+ * @param fromBlock - Block to start from (0 fetches the full history)
+ * @returns Array of all transactions
+ */
+export async function fetchTransactions(
+  walletAddress: string,
+  signal?: AbortSignal,
+  fromBlock: number = 0
+): Promise<Record<string, string>[]> {
+  return fetchAllBatches(
+    (provider, startBlock) =>
+      provider.fetchTransactionsBatch(walletAddress, startBlock, signal),
+    "transactions",
+    signal,
+    fromBlock
+  );
+}
+
+/**
+ * Fetch all ERC-20 token transfers (tokentx) for a wallet
+ * @param walletAddress - Wallet address to fetch transfers for
+ * @param signal - AbortSignal for request cancellation
+ * @param fromBlock - Block to start from (0 fetches the full history)
+ * @returns Array of all token transfers
+ */
+export async function fetchTokenTransfers(
+  walletAddress: string,
+  signal?: AbortSignal,
+  fromBlock: number = 0
+): Promise<Record<string, string>[]> {
+  return fetchAllBatches(
+    (provider, startBlock) =>
+      provider.fetchTokenTransfersBatch(walletAddress, startBlock, signal),
+    "token transfers",
+    signal,
+    fromBlock
+  );
+}
+
+/**
+ * Fetch all internal transactions (txlistinternal) for a wallet, i.e.
+ * value moved by contract calls rather than by the wallet's own transactions
+ * @param walletAddress - Wallet address to fetch internal transactions for
+ * @param signal - AbortSignal for request cancellation
+ * @param fromBlock - Block to start from (0 fetches the full history)
+ * @returns Array of all internal transactions
+ */
+export async function fetchInternalTransactions(
+  walletAddress: string,
+  signal?: AbortSignal,
+  fromBlock: number = 0
+): Promise<Record<string, string>[]> {
+  return fetchAllBatches(
+    (provider, startBlock) =>
+      provider.fetchInternalTransactionsBatch(
+        walletAddress,
+        startBlock,
+        signal
+      ),
+    "internal transactions",
+    signal,
+    fromBlock
+  );
+}
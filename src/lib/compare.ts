@@ -0,0 +1,217 @@
+import { WalletStats } from "@/types";
+
+export const MIN_COMPARE_WALLETS = 2;
+export const MAX_COMPARE_WALLETS = 4;
+
+/**
+ * How a comparison metric's value should be displayed
+ */
+export type ComparisonFormat =
+  | "count"
+  | "mon"
+  | "nft"
+  | "days"
+  | "score"
+  | "boolean";
+
+/**
+ * A metric shown in the wallet comparison view. Higher values win.
+ */
+export interface ComparisonMetric {
+  key: string;
+  label: string;
+  group: "metrics" | "scores";
+  format: ComparisonFormat;
+  getValue: (stats: WalletStats) => number;
+}
+
+/**
+ * A wallet's stored stats and standing, as returned by /api/compare
+ */
+export interface ComparedWallet {
+  walletAddress: string;
+  stats: WalletStats;
+  ranking: { rank: number; totalUsers: number; topPercent: number };
+}
+
+export const COMPARISON_METRICS: ComparisonMetric[] = [
+  {
+    key: "txCount",
+    label: "Total Transactions",
+    group: "metrics",
+    format: "count",
+    getValue: (stats) => stats.txCount,
+  },
+  {
+    key: "gasSpentMON",
+    label: "Gas Spent",
+    group: "metrics",
+    format: "mon",
+    getValue: (stats) => stats.gasSpentMON,
+  },
+  {
+    key: "totalVolume",
+    label: "Total Volume",
+    group: "metrics",
+    format: "mon",
+    getValue: (stats) => stats.totalVolume,
+  },
+  {
+    key: "uniqueTokens",
+    label: "Unique Tokens",
+    group: "metrics",
+    format: "count",
+    getValue: (stats) => stats.uniqueTokens ?? 0,
+  },
+  {
+    key: "uniqueCounterparties",
+    label: "Counterparties",
+    group: "metrics",
+    format: "count",
+    getValue: (stats) => stats.uniqueCounterparties ?? 0,
+  },
+  {
+    key: "nftBagValue",
+    label: "NFT Bag Value",
+    group: "metrics",
+    format: "nft",
+    getValue: (stats) => stats.nftBagValue,
+  },
+  {
+    key: "daysActive",
+    label: "Days Active",
+    group: "metrics",
+    format: "days",
+    getValue: (stats) => stats.daysActive ?? 0,
+  },
+  {
+    key: "longestStreak",
+    label: "Longest Streak",
+    group: "metrics",
+    format: "days",
+    getValue: (stats) => stats.longestStreak,
+  },
+  {
+    key: "isDay1User",
+    label: "Day 1 Status",
+    group: "metrics",
+    format: "boolean",
+    getValue: (stats) => (stats.isDay1User ? 1 : 0),
+  },
+  {
+    key: "totalScore",
+    label: "Total Score",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.totalScore ?? 0,
+  },
+  {
+    key: "volumeScore",
+    label: "Volume",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.volumeScore ?? 0,
+  },
+  {
+    key: "gasScore",
+    label: "Gas Spent",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.gasScore ?? 0,
+  },
+  {
+    key: "transactionScore",
+    label: "Transactions",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.transactionScore ?? 0,
+  },
+  {
+    key: "nftScore",
+    label: "NFT Value",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.nftScore ?? 0,
+  },
+  {
+    key: "daysActiveScore",
+    label: "Days Active",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.daysActiveScore ?? 0,
+  },
+  {
+    key: "streakScore",
+    label: "Streak",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.streakScore ?? 0,
+  },
+  {
+    key: "day1BonusScore",
+    label: "Day 1 Bonus",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.day1BonusScore ?? 0,
+  },
+  {
+    key: "tokenScore",
+    label: "Tokens",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.tokenScore ?? 0,
+  },
+  {
+    key: "protocolScore",
+    label: "Protocols",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.protocolScore ?? 0,
+  },
+  {
+    key: "counterpartyScore",
+    label: "Counterparties",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.counterpartyScore ?? 0,
+  },
+  {
+    key: "contractScore",
+    label: "Contracts",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.contractScore ?? 0,
+  },
+  {
+    key: "deploymentScore",
+    label: "Deployments",
+    group: "scores",
+    format: "score",
+    getValue: (stats) => stats.scores?.deploymentScore ?? 0,
+  },
+];
+
+/**
+ * Find the winning wallet(s) for each comparison metric
+ * Ties share the win; a metric where every wallet is equal has no winner.
+ * @param wallets - Wallets being compared
+ * @returns Map of metric key to winning wallet addresses
+ */
+export function findMetricWinners(
+  wallets: ComparedWallet[]
+): Record<string, string[]> {
+  const winners: Record<string, string[]> = {};
+
+  COMPARISON_METRICS.forEach((metric) => {
+    const values = wallets.map((wallet) => metric.getValue(wallet.stats));
+    const best = Math.max(...values);
+    const leaders = wallets.filter((_, index) => values[index] === best);
+
+    winners[metric.key] =
+      wallets.length > 1 && leaders.length < wallets.length
+        ? leaders.map((wallet) => wallet.walletAddress)
+        : [];
+  });
+
+  return winners;
+}
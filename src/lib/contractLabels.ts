@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { ContractCategory } from "@/types";
+
+export const CONTRACT_CATEGORIES = [
+  "dex",
+  "nft_marketplace",
+  "bridge",
+  "lending",
+  "game",
+  "other",
+] as const satisfies readonly ContractCategory[];
+
+/**
+ * Protocol a labelled contract belongs to, keyed by lowercase address
+ */
+export type ContractLabelLookup = Map<
+  string,
+  { protocol: string; category: ContractCategory }
+>;
+
+// Zod schema for a contract label, from the seed file or the admin API
+export const contractLabelSchema = z.object({
+  address: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid contract address")
+    .transform((address) => address.toLowerCase()),
+  protocol: z.string().trim().min(1).max(100),
+  category: z.enum(CONTRACT_CATEGORIES),
+});
+
+export type ContractLabelInput = z.infer<typeof contractLabelSchema>;
+
+/**
+ * Load every contract label for metric calculations. Labels are optional,
+ * so a failed lookup yields an empty registry instead of an error.
+ * @returns Labels keyed by lowercase address
+ */
+export async function loadContractLabels(): Promise<ContractLabelLookup> {
+  try {
+    const rows = await prisma.contractLabel.findMany();
+
+    return new Map(
+      rows.map((row) => [
+        row.address,
+        {
+          protocol: row.protocol,
+          category: row.category as ContractCategory,
+        },
+      ])
+    );
+  } catch (error) {
+    console.error("Error loading contract labels:", error);
+    return new Map();
+  }
+}
+
+/**
+ * List every contract label, grouped by protocol
+ */
+export async function listContractLabels() {
+  return prisma.contractLabel.findMany({
+    orderBy: [{ protocol: "asc" }, { address: "asc" }],
+  });
+}
+
+/**
+ * Create or update a label as an admin edit, which later seeding keeps
+ * @param input - Validated contract label
+ * @returns The stored label
+ */
+export async function upsertContractLabel(input: ContractLabelInput) {
+  return prisma.contractLabel.upsert({
+    where: { address: input.address },
+    update: {
+      protocol: input.protocol,
+      category: input.category,
+      source: "admin",
+    },
+    create: { ...input, source: "admin" },
+  });
+}
+
+/**
+ * Delete a contract label
+ * @param address - Contract address (case-insensitive)
+ * @returns True if a label was deleted
+ */
+export async function deleteContractLabel(address: string): Promise<boolean> {
+  const { count } = await prisma.contractLabel.deleteMany({
+    where: { address: address.toLowerCase() },
+  });
+
+  return count > 0;
+}
+
+/**
+ * Store seed labels, leaving labels edited by admins untouched
+ * @param labels - Validated seed labels
+ * @returns Number of labels written and skipped
+ */
+export async function seedContractLabels(
+  labels: ContractLabelInput[]
+): Promise<{ written: number; skipped: number }> {
+  const adminEdited = new Set(
+    (
+      await prisma.contractLabel.findMany({
+        where: { source: "admin" },
+        select: { address: true },
+      })
+    ).map((label) => label.address)
+  );
+
+  const seedLabels = labels.filter((label) => !adminEdited.has(label.address));
+
+  await prisma.$transaction(
+    seedLabels.map((label) =>
+      prisma.contractLabel.upsert({
+        where: { address: label.address },
+        update: { protocol: label.protocol, category: label.category },
+        create: { ...label, source: "seed" },
+      })
+    )
+  );
+
+  return {
+    written: seedLabels.length,
+    skipped: labels.length - seedLabels.length,
+  };
+}
@@ -0,0 +1,51 @@
+import {
+  ChainDataProvider,
+  TRANSACTION_BATCH_SIZE,
+  fetchTokentxBatch,
+  fetchTxlistBatch,
+  fetchTxlistinternalBatch,
+} from "@/lib/chainData";
+
+/**
+ * Create the Etherscan v2 provider
+ * @returns Provider, or null if ETHERSCAN_API_KEY is not set
+ */
+export function createEtherscanProvider(): ChainDataProvider | null {
+  const apiKey = process.env.ETHERSCAN_API_KEY;
+  const chainId = process.env.ETHERSCAN_CHAIN_ID || "10143";
+  const baseUrl = process.env.ETHERSCAN_BASE_URL || "https://api.etherscan.io";
+
+  if (!apiKey) return null;
+
+  const accountUrl = (
+    action: string,
+    walletAddress: string,
+    startBlock: number
+  ) =>
+    `${baseUrl}/v2/api?chainid=${chainId}&module=account&action=${action}&address=${walletAddress}&page=1&offset=${TRANSACTION_BATCH_SIZE}&startblock=${startBlock}&endblock=99999999&sort=asc&apikey=${apiKey}`;
+
+  return {
+    name: "etherscan",
+    fetchTransactionsBatch: (walletAddress, startBlock, signal) =>
+      fetchTxlistBatch(
+        "Etherscan",
+        accountUrl("txlist", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+    fetchTokenTransfersBatch: (walletAddress, startBlock, signal) =>
+      fetchTokentxBatch(
+        "Etherscan",
+        accountUrl("tokentx", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+    fetchInternalTransactionsBatch: (walletAddress, startBlock, signal) =>
+      fetchTxlistinternalBatch(
+        "Etherscan",
+        accountUrl("txlistinternal", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+  };
+}
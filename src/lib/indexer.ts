@@ -0,0 +1,65 @@
+import {
+  ChainDataProvider,
+  TRANSACTION_BATCH_SIZE,
+  fetchTokentxBatch,
+  fetchTxlistBatch,
+  fetchTxlistinternalBatch,
+} from "@/lib/chainData";
+
+/**
+ * Create a provider for a Blockscout-style or self-hosted indexer that
+ * exposes the Etherscan-compatible `module=account` txlist, txlistinternal
+ * and tokentx API
+ * @returns Provider, or null if INDEXER_API_URL is not set
+ */
+export function createIndexerProvider(): ChainDataProvider | null {
+  const baseUrl = process.env.INDEXER_API_URL;
+  const apiKey = process.env.INDEXER_API_KEY;
+
+  if (!baseUrl) return null;
+
+  const accountUrl = (
+    action: string,
+    walletAddress: string,
+    startBlock: number
+  ) => {
+    const searchParams = new URLSearchParams({
+      module: "account",
+      action,
+      address: walletAddress,
+      page: "1",
+      offset: String(TRANSACTION_BATCH_SIZE),
+      startblock: String(startBlock),
+      endblock: "99999999",
+      sort: "asc",
+    });
+    if (apiKey) searchParams.set("apikey", apiKey);
+
+    return `${baseUrl}?${searchParams.toString()}`;
+  };
+
+  return {
+    name: "indexer",
+    fetchTransactionsBatch: (walletAddress, startBlock, signal) =>
+      fetchTxlistBatch(
+        "Indexer",
+        accountUrl("txlist", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+    fetchTokenTransfersBatch: (walletAddress, startBlock, signal) =>
+      fetchTokentxBatch(
+        "Indexer",
+        accountUrl("tokentx", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+    fetchInternalTransactionsBatch: (walletAddress, startBlock, signal) =>
+      fetchTxlistinternalBatch(
+        "Indexer",
+        accountUrl("txlistinternal", walletAddress, startBlock),
+        startBlock,
+        signal
+      ),
+  };
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import {
+  getInternalTransactionId,
+  mergeInternalTransactions,
+} from "@/lib/internalTransactions";
+
+const internal = (
+  traceId: string,
+  overrides: Record<string, string> = {}
+): Record<string, string> => ({
+  hash: "0xabc",
+  traceId,
+  from: "0xc",
+  to: "0xa",
+  value: "1000",
+  isError: "0",
+  timeStamp: "1740000000",
+  blockNumber: "100",
+  ...overrides,
+});
+
+describe("getInternalTransactionId", () => {
+  it("combines the parent hash and trace id", () => {
+    expect(getInternalTransactionId(internal("0_1"))).toBe("0xabc:0_1");
+  });
+
+  it("falls back to the call's contents without a trace id", () => {
+    expect(getInternalTransactionId(internal("", { from: "0xC" }))).toBe(
+      "0xabc:0xc:0xa:1000"
+    );
+  });
+});
+
+describe("mergeInternalTransactions", () => {
+  it("keeps every call of one transaction and drops re-fetched ones", () => {
+    const merged = mergeInternalTransactions(
+      [internal("0_1"), internal("0_2")],
+      [internal("0_2"), internal("0", { hash: "0xdef", blockNumber: "50" })]
+    );
+
+    expect(merged.map(getInternalTransactionId)).toEqual([
+      "0xdef:0",
+      "0xabc:0_1",
+      "0xabc:0_2",
+    ]);
+  });
+});
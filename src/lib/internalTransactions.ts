@@ -0,0 +1,100 @@
+import type { InternalTransaction, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Build a stable id for an internal transaction. One transaction can make
+ * several internal calls, so the hash alone isn't unique; providers that
+ * don't return the trace id fall back to the call's contents.
+ * @param tx - Internal transaction record
+ * @returns Internal transaction id, unique per wallet
+ */
+export function getInternalTransactionId(tx: Record<string, string>): string {
+  if (tx.traceId) {
+    return `${tx.hash}:${tx.traceId}`;
+  }
+
+  return [
+    tx.hash,
+    (tx.from || "").toLowerCase(),
+    (tx.to || "").toLowerCase(),
+    tx.value || "0",
+  ].join(":");
+}
+
+/**
+ * Convert a stored internal transaction row back into a
+ * txlistinternal-shaped record
+ */
+export function toInternalTransactionRecord(
+  tx: InternalTransaction
+): Record<string, string> {
+  return {
+    hash: tx.hash,
+    traceId: tx.traceId || "",
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    isError: tx.isError ? "1" : "0",
+    timeStamp: tx.timeStamp.toString(),
+    blockNumber: tx.blockNumber.toString(),
+  };
+}
+
+/**
+ * Convert a txlistinternal-shaped record into a row for the
+ * internal_transactions table
+ */
+export function toInternalTransactionRow(
+  userId: string,
+  tx: Record<string, string>
+): Prisma.InternalTransactionCreateManyInput {
+  return {
+    userId,
+    internalId: getInternalTransactionId(tx),
+    hash: tx.hash,
+    traceId: tx.traceId || null,
+    blockNumber: parseInt(tx.blockNumber || "0"),
+    timeStamp: parseInt(tx.timeStamp || "0"),
+    from: tx.from || "",
+    to: tx.to || "",
+    value: tx.value || "0",
+    isError: tx.isError === "1",
+  };
+}
+
+/**
+ * Load every stored internal transaction for a user, oldest first
+ * @param userId - User id to load internal transactions for
+ * @returns Array of txlistinternal-shaped records
+ */
+export async function loadStoredInternalTransactions(
+  userId: string
+): Promise<Record<string, string>[]> {
+  const rows = await prisma.internalTransaction.findMany({
+    where: { userId },
+    orderBy: [{ blockNumber: "asc" }, { timeStamp: "asc" }],
+  });
+
+  return rows.map(toInternalTransactionRecord);
+}
+
+/**
+ * Merge stored and freshly fetched internal transactions, de-duplicating
+ * by hash and trace id
+ * @param stored - Internal transactions already in the database
+ * @param fetched - Internal transactions fetched since the last sync
+ * @returns Combined internal transactions sorted by block number
+ */
+export function mergeInternalTransactions(
+  stored: Record<string, string>[],
+  fetched: Record<string, string>[]
+): Record<string, string>[] {
+  const byId = new Map<string, Record<string, string>>();
+
+  stored.forEach((tx) => byId.set(getInternalTransactionId(tx), tx));
+  fetched.forEach((tx) => byId.set(getInternalTransactionId(tx), tx));
+
+  return Array.from(byId.values()).sort(
+    (a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber)
+  );
+}
@@ -0,0 +1,126 @@
+import { JobRun, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Runs older than this are treated as crashed and no longer block new runs
+ */
+const STALE_RUN_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Get the most recent run of a job
+ * @param name - Job name
+ * @returns Latest job run, or null if the job has never run
+ */
+export async function getLastJobRun(name: string) {
+  return prisma.jobRun.findFirst({
+    where: { name },
+    orderBy: { startedAt: "desc" },
+  });
+}
+
+/**
+ * Filter for a job's non-stale runs that are still marked as running
+ */
+function runningRunsOf(name: string): Prisma.JobRunWhereInput {
+  return {
+    name,
+    status: "running",
+    startedAt: { gt: new Date(Date.now() - STALE_RUN_MS) },
+  };
+}
+
+/**
+ * Check whether a job currently has a run in progress
+ * @param name - Job name
+ * @returns True if a non-stale run is still marked as running
+ */
+export async function isJobRunning(name: string): Promise<boolean> {
+  const runningCount = await prisma.jobRun.count({
+    where: runningRunsOf(name),
+  });
+
+  return runningCount > 0;
+}
+
+/**
+ * Start a run of a job unless one is already in progress. The check and the
+ * insert share a serializable transaction, so of two concurrent claims only
+ * one succeeds.
+ * @param name - Job name
+ * @returns The new run, or null if the job is already running
+ */
+export async function claimJobRun(name: string): Promise<JobRun | null> {
+  try {
+    return await prisma.$transaction(
+      async (tx) => {
+        const runningCount = await tx.jobRun.count({
+          where: runningRunsOf(name),
+        });
+        if (runningCount > 0) return null;
+
+        return tx.jobRun.create({ data: { name } });
+      },
+      { isolationLevel: Prisma.TransactionIsolationLevel.Serializable }
+    );
+  } catch (error) {
+    // The losing side of a concurrent claim fails to serialize
+    if (
+      error instanceof Prisma.PrismaClientKnownRequestError &&
+      error.code === "P2034"
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Run a job and record its start, progress and outcome in the job_runs table
+ * @param name - Job name
+ * @param job - Job body, called with a callback to report processed items
+ * @param claimedRun - Run already claimed with claimJobRun, so the caller
+ * could report a conflict before starting the job
+ * @returns Number of items the job processed
+ * @throws If the job is already running
+ */
+export async function runJob(
+  name: string,
+  job: (reportProgress: (itemsProcessed: number) => Promise<void>) => Promise<number>,
+  claimedRun?: JobRun
+): Promise<number> {
+  const run = claimedRun ?? (await claimJobRun(name));
+  if (!run) {
+    throw new Error(`Job ${name} is already running`);
+  }
+  console.log(`Job ${name} started (${run.id})`);
+
+  const reportProgress = async (itemsProcessed: number) => {
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { itemsProcessed },
+    });
+  };
+
+  try {
+    const itemsProcessed = await job(reportProgress);
+
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: { status: "completed", finishedAt: new Date(), itemsProcessed },
+    });
+    console.log(`Job ${name} completed: ${itemsProcessed} items processed`);
+
+    return itemsProcessed;
+  } catch (error) {
+    console.error(`Job ${name} failed:`, error);
+    await prisma.jobRun.update({
+      where: { id: run.id },
+      data: {
+        status: "failed",
+        finishedAt: new Date(),
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,567 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import {
+  calculateActivityBreadth,
+  calculateGasSpent,
+  calculateGasSpentWei,
+  calculateLongestStreak,
+  calculateProtocolMetrics,
+  calculateTokenMetrics,
+  calculateTotalVolume,
+  calculateTotalVolumeWei,
+  calculateTransactionMetrics,
+  filterIncomingInternalTransactions,
+  generateTransactionHistory,
+  TOP_TOKENS_LIMIT,
+} from "@/lib/metrics";
+
+// 2025-02-19T00:00:00Z, the Monad launch
+const LAUNCH = 1739923200;
+const DAY = 24 * 60 * 60;
+const WALLET = "0xa";
+
+const tx = (
+  timeStamp: number,
+  overrides: Record<string, string> = {}
+): Record<string, string> => ({
+  hash: `0x${timeStamp.toString(16)}`,
+  from: WALLET,
+  to: "0xb",
+  value: "1000000000000000000", // 1 MON
+  gas: "21000",
+  gasPrice: "1000000000", // 1 gwei
+  timeStamp: String(timeStamp),
+  blockNumber: String(timeStamp - LAUNCH),
+  ...overrides,
+});
+
+describe("calculateLongestStreak", () => {
+  it("returns 0 without transactions", () => {
+    expect(calculateLongestStreak([])).toBe(0);
+  });
+
+  it("counts several transactions on one day as a single day", () => {
+    expect(
+      calculateLongestStreak([
+        String(LAUNCH + 60),
+        String(LAUNCH + 3600),
+        String(LAUNCH + DAY - 1),
+      ])
+    ).toBe(1);
+  });
+
+  it("finds the longest run of consecutive UTC days", () => {
+    const timestamps = [0, 1, 2, 5, 6, 7, 8, 20].map((day) =>
+      String(LAUNCH + day * DAY + 100)
+    );
+    expect(calculateLongestStreak(timestamps)).toBe(4);
+  });
+
+  it("splits days on UTC midnight", () => {
+    // One second apart, but on two different UTC days
+    expect(
+      calculateLongestStreak([String(LAUNCH + DAY - 1), String(LAUNCH + DAY)])
+    ).toBe(2);
+  });
+
+  it("ignores pre-launch transactions", () => {
+    expect(
+      calculateLongestStreak([
+        String(LAUNCH - 2 * DAY),
+        String(LAUNCH - DAY),
+        String(LAUNCH + 10),
+      ])
+    ).toBe(1);
+    expect(calculateLongestStreak([String(LAUNCH - 1)])).toBe(0);
+  });
+});
+
+describe("calculateGasSpent", () => {
+  it("multiplies gas by gas price and converts to MON", () => {
+    expect(calculateGasSpent([tx(LAUNCH), tx(LAUNCH + 1)])).toBeCloseTo(
+      0.000042
+    );
+  });
+
+  it("ignores pre-launch transactions", () => {
+    expect(calculateGasSpent([tx(LAUNCH - 1)])).toBe(0);
+  });
+
+  it("charges gasUsed at the effective gas price, not the gas limit", () => {
+    expect(
+      calculateGasSpent([
+        tx(LAUNCH, {
+          gas: "100000",
+          gasUsed: "21000",
+          effectiveGasPrice: "2000000000",
+        }),
+      ])
+    ).toBeCloseTo(0.000042);
+  });
+
+  it("treats missing gas fields as zero", () => {
+    expect(calculateGasSpent([tx(LAUNCH, { gas: "", gasPrice: "" })])).toBe(0);
+  });
+});
+
+describe("calculateTotalVolume", () => {
+  it("sums transaction values in MON", () => {
+    expect(
+      calculateTotalVolume([
+        tx(LAUNCH),
+        tx(LAUNCH + 1, { value: "2500000000000000000" }),
+      ])
+    ).toBeCloseTo(3.5);
+  });
+
+  it("ignores pre-launch transactions", () => {
+    expect(calculateTotalVolume([tx(LAUNCH - 1), tx(LAUNCH)])).toBeCloseTo(1);
+  });
+});
+
+describe("calculateTotalVolumeWei", () => {
+  it("sums wei exactly beyond float precision", () => {
+    // Each value is above 2^53 and not representable as a double
+    const values = ["9007199254740993", "9007199254740995"];
+
+    expect(
+      calculateTotalVolumeWei(
+        values.map((value, i) => tx(LAUNCH + i, { value }))
+      ).toString()
+    ).toBe("18014398509481988");
+  });
+});
+
+describe("calculateGasSpentWei", () => {
+  it("skips pre-launch transactions", () => {
+    expect(
+      calculateGasSpentWei([tx(LAUNCH - 1), tx(LAUNCH, { gasUsed: "1" })])
+    ).toBe(BigInt(1000000000));
+  });
+});
+
+describe("generateTransactionHistory", () => {
+  it("returns no history without post-launch transactions", () => {
+    expect(generateTransactionHistory([], [WALLET])).toEqual([]);
+    expect(generateTransactionHistory([tx(LAUNCH - 1)], [WALLET])).toEqual([]);
+  });
+
+  it("groups by UTC day and fills gaps with zeros", () => {
+    const history = generateTransactionHistory(
+      [tx(LAUNCH + 10), tx(LAUNCH + DAY - 1), tx(LAUNCH + 3 * DAY)],
+      [WALLET]
+    );
+
+    expect(history.map((day) => day.date)).toEqual([
+      "2025-02-19",
+      "2025-02-20",
+      "2025-02-21",
+      "2025-02-22",
+    ]);
+    expect(history.map((day) => day.transactions)).toEqual([2, 0, 0, 1]);
+    expect(history[0].volume).toBeCloseTo(2);
+    expect(history[0].gasSpent).toBeCloseTo(0.000042);
+  });
+
+  it("adds internal value to the day's volume without counting it", () => {
+    const history = generateTransactionHistory(
+      [tx(LAUNCH + 10)],
+      [WALLET],
+      [
+        tx(LAUNCH + 20, { from: "0xc", to: WALLET }),
+        tx(LAUNCH + DAY + 10, { from: "0xc", to: WALLET }),
+      ]
+    );
+
+    expect(history.map((day) => day.transactions)).toEqual([1, 0]);
+    expect(history.map((day) => day.volume)).toEqual([2, 1]);
+    expect(history[0].gasSpent).toBeCloseTo(0.000021);
+  });
+
+  it("only adds gas the wallet paid, including for reverted sends", () => {
+    const history = generateTransactionHistory(
+      [
+        tx(LAUNCH + 10),
+        tx(LAUNCH + 20, { from: "0xc", to: WALLET }),
+        tx(LAUNCH + 30, { isError: "1" }),
+        tx(LAUNCH + DAY + 10, { from: "0xc", to: WALLET, isError: "1" }),
+      ],
+      [WALLET]
+    );
+
+    expect(history).toHaveLength(1);
+    expect(history[0].transactions).toBe(2);
+    expect(history[0].volume).toBeCloseTo(2);
+    expect(history[0].gasSpent).toBeCloseTo(0.000042);
+  });
+
+  describe("in a timezone with daylight saving time", () => {
+    const originalTz = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = "America/New_York";
+    });
+
+    afterAll(() => {
+      process.env.TZ = originalTz;
+    });
+
+    it("emits each UTC day exactly once across the DST change", () => {
+      // US clocks moved forward on 2025-03-09
+      const march7 = Date.UTC(2025, 2, 7) / 1000;
+      const history = generateTransactionHistory(
+        [tx(march7 + 100), tx(march7 + 5 * DAY + 100)],
+        [WALLET]
+      );
+
+      expect(history.map((day) => day.date)).toEqual([
+        "2025-03-07",
+        "2025-03-08",
+        "2025-03-09",
+        "2025-03-10",
+        "2025-03-11",
+        "2025-03-12",
+      ]);
+      expect(history.map((day) => day.transactions)).toEqual([
+        1, 0, 0, 0, 0, 1,
+      ]);
+    });
+  });
+});
+
+describe("calculateTransactionMetrics", () => {
+  const metricsFor = (
+    transactions: Record<string, string>[],
+    internalTransactions: Record<string, string>[] = []
+  ) => calculateTransactionMetrics(transactions, [WALLET], internalTransactions);
+
+  it("combines every metric and skips pre-launch activity", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH - DAY),
+      tx(LAUNCH + 100),
+      tx(LAUNCH + DAY + 100),
+    ]);
+
+    expect(metrics.txCount).toBe(2);
+    expect(metrics.totalVolume).toBeCloseTo(2);
+    expect(metrics.totalVolumeWei).toBe("2000000000000000000");
+    expect(metrics.longestStreak).toBe(2);
+    expect(metrics.daysActive).toBe(2);
+    expect(metrics.isDay1User).toBe(true);
+    expect(metrics.transactionHistory).toHaveLength(2);
+  });
+
+  it("excludes failed transactions from everything but gas", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH + 100),
+      tx(LAUNCH + DAY + 100, { isError: "1", gasUsed: "50000" }),
+      tx(LAUNCH + 2 * DAY + 100, { isError: "1", gasUsed: "50000" }),
+    ]);
+
+    expect(metrics.txCount).toBe(1);
+    expect(metrics.totalVolume).toBeCloseTo(1);
+    expect(metrics.longestStreak).toBe(1);
+    expect(metrics.daysActive).toBe(1);
+    expect(metrics.transactionHistory.map((day) => day.transactions)).toEqual([
+      1, 0, 0,
+    ]);
+    expect(metrics.transactionHistory[1].gasSpent).toBeCloseTo(0.00005);
+    expect(metrics.failedTxCount).toBe(2);
+    expect(metrics.failedGasSpentWei).toBe("100000000000000");
+    expect(metrics.gasSpentMON).toBeCloseTo(0.000121);
+  });
+
+  it("doesn't count failed transactions others sent to the wallet", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH + 100, { isError: "1", gasUsed: "50000" }),
+      tx(LAUNCH + 200, { from: "0xc", to: "0xA", isError: "1" }),
+    ]);
+
+    expect(metrics.failedTxCount).toBe(1);
+    expect(metrics.failedGasSpentWei).toBe("50000000000000");
+  });
+
+  it("only charges gas for transactions the wallet sent", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH + 100),
+      tx(LAUNCH + 200, { from: "0xc", to: "0xA" }),
+    ]);
+
+    expect(metrics.txCount).toBe(2);
+    expect(metrics.gasSpentWei).toBe("21000000000000");
+  });
+
+  it("sums the daily gas to the gas spent", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH + 100),
+      tx(LAUNCH + 200, { from: "0xc", to: "0xA" }),
+      tx(LAUNCH + DAY + 100, { isError: "1", gasUsed: "50000" }),
+      tx(LAUNCH + 2 * DAY + 100, { from: "0xc", to: WALLET, isError: "1" }),
+    ]);
+    const dailyGas = metrics.transactionHistory.reduce(
+      (total, day) => total + day.gasSpent,
+      0
+    );
+
+    expect(dailyGas).toBeCloseTo(metrics.gasSpentMON, 12);
+  });
+
+  it("splits volume into sent, received and net flow", () => {
+    const metrics = metricsFor([
+      tx(LAUNCH + 100, { value: "3000000000000000000" }),
+      tx(LAUNCH + 200, { from: "0xB", to: "0xA" }),
+      tx(LAUNCH + 300, { from: "0xc", to: WALLET, isError: "1" }),
+    ]);
+
+    expect(metrics.sentVolumeWei).toBe("3000000000000000000");
+    expect(metrics.receivedVolumeWei).toBe("1000000000000000000");
+    expect(metrics.sentVolume).toBeCloseTo(3);
+    expect(metrics.receivedVolume).toBeCloseTo(1);
+    expect(metrics.netVolume).toBeCloseTo(-2);
+  });
+
+  it("counts incoming internal transactions as received volume", () => {
+    const internal = (traceId: string, overrides = {}) =>
+      tx(LAUNCH + 100, { traceId, from: "0xc", to: WALLET, ...overrides });
+    const metrics = metricsFor(
+      [tx(LAUNCH + 100)],
+      [
+        internal("0_1"),
+        internal("0_2", { isError: "1" }),
+        internal("0_3", { from: WALLET, to: "0xc" }),
+      ]
+    );
+
+    expect(metrics.txCount).toBe(1);
+    expect(metrics.receivedVolumeWei).toBe("1000000000000000000");
+    expect(metrics.sentVolumeWei).toBe("1000000000000000000");
+    expect(metrics.totalVolumeWei).toBe("2000000000000000000");
+    expect(metrics.transactionHistory[0].volume).toBeCloseTo(2);
+  });
+
+  it("leaves transfers between own wallets out of both directions", () => {
+    const metrics = calculateTransactionMetrics(
+      [tx(LAUNCH + 100, { to: "0xd" }), tx(LAUNCH + 200, { to: WALLET })],
+      [WALLET, "0xd"]
+    );
+
+    expect(metrics.totalVolume).toBeCloseTo(2);
+    expect(metrics.sentVolume).toBe(0);
+    expect(metrics.receivedVolume).toBe(0);
+    expect(metrics.netVolume).toBe(0);
+  });
+
+  it("doesn't grant Day 1 for a failed launch-day transaction", () => {
+    expect(metricsFor([tx(LAUNCH + 100, { isError: "1" })]).isDay1User).toBe(
+      false
+    );
+  });
+
+  it("only counts Day 1 for transactions on the UTC launch day", () => {
+    expect(metricsFor([tx(LAUNCH + DAY)]).isDay1User).toBe(false);
+    expect(metricsFor([tx(LAUNCH + DAY - 1)]).isDay1User).toBe(true);
+  });
+
+  describe("in a timezone behind UTC", () => {
+    const originalTz = process.env.TZ;
+
+    beforeAll(() => {
+      process.env.TZ = "America/New_York";
+    });
+
+    afterAll(() => {
+      process.env.TZ = originalTz;
+    });
+
+    it("still uses the UTC launch day for Day 1", () => {
+      // 23:59 UTC on launch day is already the evening of a different
+      // local day than launch midnight
+      expect(metricsFor([tx(LAUNCH + DAY - 1)]).isDay1User).toBe(true);
+      expect(metricsFor([tx(LAUNCH + DAY)]).isDay1User).toBe(false);
+    });
+  });
+});
+
+describe("calculateActivityBreadth", () => {
+  it("counts distinct addresses the wallet sent to or received from", () => {
+    const breadth = calculateActivityBreadth(
+      [
+        tx(LAUNCH + 1, { to: "0xB" }),
+        tx(LAUNCH + 2, { to: "0xb" }),
+        tx(LAUNCH + 3, { from: "0xc", to: WALLET }),
+        tx(LAUNCH + 4, { to: "0xd", isError: "1" }),
+        tx(LAUNCH - 1, { to: "0xe" }),
+      ],
+      [WALLET]
+    );
+
+    expect(breadth.uniqueCounterparties).toBe(2);
+  });
+
+  it("counts contracts called with call data and deployments", () => {
+    const breadth = calculateActivityBreadth(
+      [
+        tx(LAUNCH + 1, { to: "0xdex", methodId: "0x38ed1739" }),
+        tx(LAUNCH + 2, { to: "0xdex", methodId: "0x7ff36ab5" }),
+        tx(LAUNCH + 3, { to: "0xfriend", methodId: "0x" }),
+        tx(LAUNCH + 4, { to: "", contractAddress: "0xnew" }),
+      ],
+      [WALLET]
+    );
+
+    expect(breadth).toEqual({
+      uniqueCounterparties: 2,
+      uniqueContracts: 1,
+      contractsDeployed: 1,
+    });
+  });
+
+  it("ignores transfers between own addresses", () => {
+    const breadth = calculateActivityBreadth(
+      [tx(LAUNCH + 1, { to: "0xb" })],
+      [WALLET, "0xb"]
+    );
+
+    expect(breadth.uniqueCounterparties).toBe(0);
+  });
+});
+
+describe("filterIncomingInternalTransactions", () => {
+  it("keeps calls paying into the wallets from outside", () => {
+    const incoming = tx(LAUNCH, { from: "0xc", to: "0xA" });
+    const outgoing = tx(LAUNCH, { from: WALLET, to: "0xc" });
+    const between = tx(LAUNCH, { from: WALLET, to: "0xd" });
+
+    expect(
+      filterIncomingInternalTransactions(
+        [incoming, outgoing, between],
+        [WALLET, "0xd"]
+      )
+    ).toEqual([incoming]);
+  });
+});
+
+describe("calculateTokenMetrics", () => {
+  const transfer = (
+    timeStamp: number,
+    contractAddress: string,
+    tokenSymbol: string
+  ): Record<string, string> => ({
+    hash: `0x${timeStamp.toString(16)}`,
+    from: WALLET,
+    to: "0xb",
+    value: "1",
+    contractAddress,
+    tokenName: tokenSymbol,
+    tokenSymbol,
+    tokenDecimal: "18",
+    timeStamp: String(timeStamp),
+    blockNumber: String(timeStamp - LAUNCH),
+  });
+
+  it("returns zeros without transfers", () => {
+    expect(calculateTokenMetrics([])).toEqual({
+      tokenTransferCount: 0,
+      uniqueTokens: 0,
+      topTokens: [],
+    });
+  });
+
+  it("counts transfers and distinct tokens after launch", () => {
+    const metrics = calculateTokenMetrics([
+      transfer(LAUNCH - 1, "0x01", "OLD"),
+      transfer(LAUNCH + 1, "0x02", "USDC"),
+      transfer(LAUNCH + 2, "0x02", "USDC"),
+      transfer(LAUNCH + 3, "0x03", "WMON"),
+    ]);
+
+    expect(metrics.tokenTransferCount).toBe(3);
+    expect(metrics.uniqueTokens).toBe(2);
+  });
+
+  it("treats contract addresses case-insensitively", () => {
+    const metrics = calculateTokenMetrics([
+      transfer(LAUNCH + 1, "0xAbC", "USDC"),
+      transfer(LAUNCH + 2, "0xabc", "USDC"),
+    ]);
+
+    expect(metrics.uniqueTokens).toBe(1);
+    expect(metrics.topTokens[0]).toMatchObject({
+      contractAddress: "0xabc",
+      transferCount: 2,
+    });
+  });
+
+  it("ranks the most transferred tokens first, up to the limit", () => {
+    const transfers = ["0x01", "0x02", "0x03", "0x04", "0x05", "0x06"].flatMap(
+      (contractAddress, i) =>
+        Array.from({ length: i + 1 }, (_, j) =>
+          transfer(LAUNCH + i * 10 + j, contractAddress, `T${i}`)
+        )
+    );
+    const { topTokens } = calculateTokenMetrics(transfers);
+
+    expect(topTokens).toHaveLength(TOP_TOKENS_LIMIT);
+    expect(topTokens.map((token) => token.symbol)).toEqual([
+      "T5",
+      "T4",
+      "T3",
+      "T2",
+      "T1",
+    ]);
+  });
+});
+
+describe("calculateProtocolMetrics", () => {
+  const labels = new Map([
+    ["0xdex", { protocol: "SwapDex", category: "dex" as const }],
+    ["0xdex2", { protocol: "SwapDex", category: "dex" as const }],
+    ["0xnft", { protocol: "NftMarket", category: "nft_marketplace" as const }],
+  ]);
+
+  it("returns nothing without labelled transactions", () => {
+    expect(calculateProtocolMetrics([tx(LAUNCH + 1)], labels)).toEqual({
+      protocols: [],
+      distinctProtocols: 0,
+    });
+  });
+
+  it("groups every contract of a protocol together", () => {
+    const { protocols, distinctProtocols } = calculateProtocolMetrics(
+      [
+        tx(LAUNCH + 1, { to: "0xDEX" }),
+        tx(LAUNCH + 2, { to: "0xdex2" }),
+        tx(LAUNCH + 3, { to: "0xnft" }),
+        tx(LAUNCH - 1, { to: "0xnft" }),
+      ],
+      labels
+    );
+
+    expect(distinctProtocols).toBe(2);
+    expect(protocols).toEqual([
+      {
+        protocol: "SwapDex",
+        category: "dex",
+        txCount: 2,
+        gasSpentMON: 0.000042,
+      },
+      {
+        protocol: "NftMarket",
+        category: "nft_marketplace",
+        txCount: 1,
+        gasSpentMON: 0.000021,
+      },
+    ]);
+  });
+
+  it("charges gas for reverted calls without counting them", () => {
+    const { protocols, distinctProtocols } = calculateProtocolMetrics(
+      [tx(LAUNCH + 1, { to: "0xnft", isError: "1" })],
+      labels
+    );
+
+    expect(protocols).toEqual([
+      expect.objectContaining({ txCount: 0, gasSpentMON: 0.000021 }),
+    ]);
+    expect(distinctProtocols).toBe(0);
+  });
+});
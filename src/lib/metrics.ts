@@ -0,0 +1,660 @@
+import {
+  ProtocolActivity,
+  TokenActivity,
+  TransactionDataPoint,
+} from "@/types";
+import type { ContractLabelLookup } from "@/lib/contractLabels";
+import { isDay1, getLaunchDate } from "@/lib/utils";
+import { calculateDaysActive } from "@/lib/scoring";
+import { getGasCostWei, toWei, weiToMON } from "@/lib/wei";
+
+/**
+ * Metrics derived from a wallet's (or portfolio's) transaction list
+ */
+export interface TransactionMetrics {
+  txCount: number;
+  gasSpentMON: number;
+  totalVolume: number;
+  gasSpentWei: string;
+  totalVolumeWei: string;
+  sentVolume: number;
+  receivedVolume: number;
+  /** Received minus sent volume; negative when more MON left than arrived */
+  netVolume: number;
+  sentVolumeWei: string;
+  receivedVolumeWei: string;
+  failedTxCount: number;
+  failedGasSpentMON: number;
+  failedGasSpentWei: string;
+  uniqueCounterparties: number;
+  uniqueContracts: number;
+  contractsDeployed: number;
+  isDay1User: boolean;
+  longestStreak: number;
+  daysActive: number;
+  transactionHistory: TransactionDataPoint[];
+}
+
+/**
+ * How broad a wallet's (or portfolio's) activity is
+ */
+export interface ActivityBreadth {
+  /** Distinct addresses sent to or received from */
+  uniqueCounterparties: number;
+  /** Distinct contracts called with call data */
+  uniqueContracts: number;
+  /** Contracts created by transactions with an empty to field */
+  contractsDeployed: number;
+}
+
+// Number of tokens listed in topTokens
+export const TOP_TOKENS_LIMIT = 5;
+
+/**
+ * Metrics derived from a wallet's ERC-20 token transfers
+ */
+export interface TokenMetrics {
+  tokenTransferCount: number;
+  uniqueTokens: number;
+  /** Most transferred tokens, most active first */
+  topTokens: TokenActivity[];
+}
+
+/**
+ * Metrics derived from a wallet's transactions to labelled contracts
+ */
+export interface ProtocolMetrics {
+  /** Per-protocol activity, most used first */
+  protocols: ProtocolActivity[];
+  distinctProtocols: number;
+}
+
+/**
+ * Check whether a transaction reverted on chain
+ * @param tx - Etherscan-shaped transaction
+ * @returns True if the transaction failed
+ */
+export function isFailedTransaction(tx: Record<string, string>): boolean {
+  return tx.isError === "1";
+}
+
+/**
+ * Keep the internal transactions that paid value into a set of addresses
+ * from outside it
+ * @param internalTransactions - Array of internal transactions
+ * @param ownAddresses - Addresses the value is measured for
+ * @returns Incoming internal transactions
+ */
+export function filterIncomingInternalTransactions(
+  internalTransactions: Record<string, string>[],
+  ownAddresses: string[]
+): Record<string, string>[] {
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+
+  return internalTransactions.filter(
+    (tx) =>
+      own.has((tx.to || "").toLowerCase()) &&
+      !own.has((tx.from || "").toLowerCase())
+  );
+}
+
+/**
+ * Generate transaction history data for charts
+ * @param transactions - Array of transactions
+ * @param ownAddresses - Addresses that make up the wallet; only their sent
+ * transactions add gas
+ * @param incomingInternalTransactions - Value received through contract
+ * calls; added to each day's volume without counting as transactions
+ * @returns Array of transaction data points
+ */
+export function generateTransactionHistory(
+  transactions: Record<string, string>[],
+  ownAddresses: string[],
+  incomingInternalTransactions: Record<string, string>[] = []
+): TransactionDataPoint[] {
+  if (transactions.length === 0 && incomingInternalTransactions.length === 0) {
+    return [];
+  }
+
+  const launchDate = getLaunchDate();
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+
+  // Group transactions by date, filtering out transactions before launch
+  const dailyData = new Map<
+    string,
+    { transactions: number; volume: number; gasSpent: number }
+  >();
+
+  const addToDay = (
+    tx: Record<string, string>,
+    transactionCount: number,
+    value: number,
+    gasCost: number
+  ) => {
+    const timestamp = parseInt(tx.timeStamp);
+
+    // Skip transactions before Monad launch
+    if (timestamp < launchDate) {
+      return;
+    }
+
+    const date = new Date(timestamp * 1000).toISOString().split("T")[0];
+
+    if (dailyData.has(date)) {
+      const existing = dailyData.get(date)!;
+      existing.transactions += transactionCount;
+      existing.volume += value;
+      existing.gasSpent += gasCost;
+    } else {
+      dailyData.set(date, {
+        transactions: transactionCount,
+        volume: value,
+        gasSpent: gasCost,
+      });
+    }
+  };
+
+  transactions.forEach((tx) => {
+    // Only the sender pays gas, and reverted transactions still pay it
+    const isSent = own.has((tx.from || "").toLowerCase());
+    const gasCost = isSent ? weiToMON(getGasCostWei(tx)) : 0;
+
+    if (!isFailedTransaction(tx)) {
+      addToDay(tx, 1, weiToMON(toWei(tx.value)), gasCost);
+    } else if (isSent) {
+      addToDay(tx, 0, 0, gasCost);
+    }
+  });
+
+  // Internal calls were paid for by their parent transaction
+  incomingInternalTransactions
+    .filter((tx) => !isFailedTransaction(tx))
+    .forEach((tx) => addToDay(tx, 0, weiToMON(toWei(tx.value)), 0));
+
+  // Get the date range
+  const dates = Array.from(dailyData.keys()).sort();
+  if (dates.length === 0) return [];
+
+  const startDate = new Date(dates[0]);
+  const endDate = new Date(dates[dates.length - 1]);
+
+  // Fill in missing dates with zero values
+  const completeData: TransactionDataPoint[] = [];
+  const currentDate = new Date(startDate);
+
+  while (currentDate <= endDate) {
+    const dateString = currentDate.toISOString().split("T")[0];
+    const existingData = dailyData.get(dateString);
+
+    completeData.push({
+      date: dateString,
+      transactions: existingData?.transactions || 0,
+      volume: existingData?.volume || 0,
+      gasSpent: existingData?.gasSpent || 0,
+    });
+
+    // Move to next UTC day (local days can be 23 or 25 hours long)
+    currentDate.setUTCDate(currentDate.getUTCDate() + 1);
+  }
+
+  return completeData;
+}
+
+/**
+ * Calculate the longest consecutive days with transactions
+ * @param transactions - Array of transaction timestamps
+ * @returns Longest streak count in days
+ */
+export function calculateLongestStreak(transactions: string[]): number {
+  if (transactions.length === 0) return 0;
+
+  const launchDate = getLaunchDate();
+
+  // Convert timestamps to dates and get unique days, filtering out transactions before launch
+  const uniqueDays = new Set<string>();
+  transactions.forEach((timestamp) => {
+    const timestampNum = parseInt(timestamp);
+
+    // Skip transactions before Monad launch
+    if (timestampNum < launchDate) {
+      return;
+    }
+
+    const date = new Date(timestampNum * 1000);
+    const dayString = date.toISOString().split("T")[0]; // YYYY-MM-DD format
+    uniqueDays.add(dayString);
+  });
+
+  // Convert to sorted array of dates
+  const sortedDays = Array.from(uniqueDays).sort();
+
+  if (sortedDays.length === 0) return 0;
+  if (sortedDays.length === 1) return 1;
+
+  let currentStreak = 1;
+  let longestStreak = 1;
+
+  for (let i = 1; i < sortedDays.length; i++) {
+    const prevDate = new Date(sortedDays[i - 1]);
+    const currDate = new Date(sortedDays[i]);
+
+    // Calculate difference in days
+    const diffTime = currDate.getTime() - prevDate.getTime();
+    const diffDays = diffTime / (1000 * 60 * 60 * 24);
+
+    if (diffDays === 1) {
+      // Consecutive days
+      currentStreak++;
+    } else {
+      // Not consecutive, check if this was a longer streak
+      if (currentStreak > longestStreak) {
+        longestStreak = currentStreak;
+      }
+
+      // Reset streak
+      currentStreak = 1;
+    }
+  }
+
+  // Check the final streak
+  if (currentStreak > longestStreak) {
+    longestStreak = currentStreak;
+  }
+
+  return longestStreak;
+}
+
+/**
+ * Calculate the exact gas fees paid, in wei. Reverted transactions still
+ * pay for gas, so they are included.
+ * @param transactions - Array of transactions
+ * @returns Total gas fees in wei
+ */
+export function calculateGasSpentWei(
+  transactions: Record<string, string>[]
+): bigint {
+  const launchDate = getLaunchDate();
+
+  return transactions.reduce((total, tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+
+    // Skip transactions before Monad launch
+    if (timestamp < launchDate) {
+      return total;
+    }
+
+    return total + getGasCostWei(tx);
+  }, BigInt(0));
+}
+
+/**
+ * Calculate total gas spent in MON
+ * @param transactions - Array of transactions
+ * @returns Total gas spent in MON
+ */
+export function calculateGasSpent(transactions: Record<string, string>[]): number {
+  return weiToMON(calculateGasSpentWei(transactions));
+}
+
+/**
+ * Calculate the exact total volume, in wei
+ * @param transactions - Array of transactions
+ * @returns Total volume in wei
+ */
+export function calculateTotalVolumeWei(
+  transactions: Record<string, string>[]
+): bigint {
+  const launchDate = getLaunchDate();
+
+  return transactions.reduce((total, tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+
+    // Skip transactions before Monad launch, and reverted transactions
+    // whose value never moved
+    if (timestamp < launchDate || isFailedTransaction(tx)) {
+      return total;
+    }
+
+    return total + toWei(tx.value);
+  }, BigInt(0));
+}
+
+/**
+ * Calculate total volume from transactions
+ * @param transactions - Array of transactions
+ * @returns Total volume in MON
+ */
+export function calculateTotalVolume(transactions: Record<string, string>[]): number {
+  return weiToMON(calculateTotalVolumeWei(transactions));
+}
+
+/**
+ * Sum the value of successful, post-launch transactions matching a filter
+ */
+function sumVolumeWei(
+  transactions: Record<string, string>[],
+  predicate: (tx: Record<string, string>) => boolean
+): bigint {
+  const launchDate = getLaunchDate();
+
+  return transactions.reduce((total, tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+
+    if (timestamp < launchDate || isFailedTransaction(tx) || !predicate(tx)) {
+      return total;
+    }
+
+    return total + toWei(tx.value);
+  }, BigInt(0));
+}
+
+/**
+ * Calculate the exact volume sent out of a set of addresses, in wei.
+ * Transfers between the addresses themselves are not counted.
+ * @param transactions - Array of transactions
+ * @param ownAddresses - Addresses the volume is measured for
+ * @returns Outgoing volume in wei
+ */
+export function calculateSentVolumeWei(
+  transactions: Record<string, string>[],
+  ownAddresses: string[]
+): bigint {
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+
+  return sumVolumeWei(
+    transactions,
+    (tx) =>
+      own.has((tx.from || "").toLowerCase()) &&
+      !own.has((tx.to || "").toLowerCase())
+  );
+}
+
+/**
+ * Calculate the exact volume received by a set of addresses, in wei.
+ * Transfers between the addresses themselves are not counted.
+ * @param transactions - Array of transactions
+ * @param ownAddresses - Addresses the volume is measured for
+ * @returns Incoming volume in wei
+ */
+export function calculateReceivedVolumeWei(
+  transactions: Record<string, string>[],
+  ownAddresses: string[]
+): bigint {
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+
+  return sumVolumeWei(
+    transactions,
+    (tx) =>
+      own.has((tx.to || "").toLowerCase()) &&
+      !own.has((tx.from || "").toLowerCase())
+  );
+}
+
+/**
+ * Check whether a transaction calls a contract function rather than just
+ * moving MON
+ */
+function isContractCall(tx: Record<string, string>): boolean {
+  return Boolean(tx.to) && Boolean(tx.methodId) && tx.methodId !== "0x";
+}
+
+/**
+ * Measure how many different addresses and contracts a set of addresses
+ * has dealt with
+ * @param transactions - Array of transactions
+ * @param ownAddresses - Addresses the activity is measured for
+ * @returns Activity breadth, counting only successful transactions after
+ * launch. Transfers between own addresses aren't counterparties.
+ */
+export function calculateActivityBreadth(
+  transactions: Record<string, string>[],
+  ownAddresses: string[]
+): ActivityBreadth {
+  const launchDate = getLaunchDate();
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+  const counterparties = new Set<string>();
+  const contracts = new Set<string>();
+  let contractsDeployed = 0;
+
+  transactions.forEach((tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+
+    if (timestamp < launchDate || isFailedTransaction(tx)) {
+      return;
+    }
+
+    const from = (tx.from || "").toLowerCase();
+    const to = (tx.to || "").toLowerCase();
+
+    if (!own.has(from)) {
+      counterparties.add(from);
+      return;
+    }
+
+    // Deployments have no recipient
+    if (!to) {
+      contractsDeployed += 1;
+      return;
+    }
+
+    if (!own.has(to)) {
+      counterparties.add(to);
+    }
+    if (isContractCall(tx)) {
+      contracts.add(to);
+    }
+  });
+
+  return {
+    uniqueCounterparties: counterparties.size,
+    uniqueContracts: contracts.size,
+    contractsDeployed,
+  };
+}
+
+/**
+ * Calculate every transaction-based metric for a list of transactions
+ * @param transactions - Array of transactions
+ * @param ownAddresses - Wallet(s) the transactions belong to, used to split
+ * volume into sent and received and to find counterparties
+ * @param internalTransactions - Internal transactions for the same wallets;
+ * value received through them counts toward volume and the history
+ * @returns Transaction metrics, counting only activity after launch
+ */
+export function calculateTransactionMetrics(
+  transactions: Record<string, string>[],
+  ownAddresses: string[],
+  internalTransactions: Record<string, string>[] = []
+): TransactionMetrics {
+  const launchDate = getLaunchDate();
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+
+  // Only the sender pays gas, so incoming transactions don't cost the
+  // wallet anything
+  const sentTransactions = transactions.filter((tx) =>
+    own.has((tx.from || "").toLowerCase())
+  );
+
+  // Filter transactions to only include those after launch
+  const launchedTransactions = transactions.filter((tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+    return timestamp >= launchDate;
+  });
+
+  // Reverted transactions only count toward gas and the failure metrics.
+  // A revert someone else sent to the wallet isn't the wallet's failure.
+  const failedTransactions = launchedTransactions.filter(
+    (tx) => isFailedTransaction(tx) && own.has((tx.from || "").toLowerCase())
+  );
+  const validTransactions = launchedTransactions.filter(
+    (tx) => !isFailedTransaction(tx)
+  );
+
+  // Check if user is Day 1 (February 19, 2025)
+  const isDay1User = validTransactions.some((tx) => {
+    const txDate = new Date(parseInt(tx.timeStamp) * 1000);
+    return isDay1(txDate);
+  });
+
+  // Value paid to the wallet(s) by contract calls
+  const incomingInternalTransactions = filterIncomingInternalTransactions(
+    internalTransactions,
+    ownAddresses
+  );
+
+  // Generate transaction history for charts
+  const transactionHistory = generateTransactionHistory(
+    launchedTransactions,
+    ownAddresses,
+    incomingInternalTransactions
+  );
+
+  const gasSpentWei = calculateGasSpentWei(sentTransactions);
+  const totalVolumeWei =
+    calculateTotalVolumeWei(transactions) +
+    calculateTotalVolumeWei(incomingInternalTransactions);
+  const sentVolumeWei = calculateSentVolumeWei(transactions, ownAddresses);
+  const receivedVolumeWei =
+    calculateReceivedVolumeWei(transactions, ownAddresses) +
+    calculateTotalVolumeWei(incomingInternalTransactions);
+  const failedGasSpentWei = calculateGasSpentWei(failedTransactions);
+  const { uniqueCounterparties, uniqueContracts, contractsDeployed } =
+    calculateActivityBreadth(transactions, ownAddresses);
+
+  return {
+    txCount: validTransactions.length,
+    gasSpentMON: weiToMON(gasSpentWei),
+    totalVolume: weiToMON(totalVolumeWei),
+    gasSpentWei: gasSpentWei.toString(),
+    totalVolumeWei: totalVolumeWei.toString(),
+    sentVolume: weiToMON(sentVolumeWei),
+    receivedVolume: weiToMON(receivedVolumeWei),
+    netVolume: weiToMON(receivedVolumeWei - sentVolumeWei),
+    sentVolumeWei: sentVolumeWei.toString(),
+    receivedVolumeWei: receivedVolumeWei.toString(),
+    failedTxCount: failedTransactions.length,
+    failedGasSpentMON: weiToMON(failedGasSpentWei),
+    failedGasSpentWei: failedGasSpentWei.toString(),
+    uniqueCounterparties,
+    uniqueContracts,
+    contractsDeployed,
+    isDay1User,
+    longestStreak: calculateLongestStreak(
+      validTransactions.map((tx) => tx.timeStamp)
+    ),
+    daysActive: calculateDaysActive(transactionHistory),
+    transactionHistory,
+  };
+}
+
+/**
+ * Calculate ERC-20 token activity from a wallet's token transfers
+ * @param transfers - Array of tokentx-shaped transfers
+ * @returns Token metrics, counting only activity after launch
+ */
+export function calculateTokenMetrics(
+  transfers: Record<string, string>[]
+): TokenMetrics {
+  const launchDate = getLaunchDate();
+  const byToken = new Map<string, TokenActivity>();
+  let tokenTransferCount = 0;
+
+  transfers.forEach((transfer) => {
+    const timestamp = parseInt(transfer.timeStamp || "0");
+
+    // Skip transfers before Monad launch
+    if (timestamp < launchDate) {
+      return;
+    }
+
+    tokenTransferCount++;
+
+    const contractAddress = (transfer.contractAddress || "").toLowerCase();
+    const existing = byToken.get(contractAddress);
+    if (existing) {
+      existing.transferCount += 1;
+    } else {
+      byToken.set(contractAddress, {
+        contractAddress,
+        symbol: transfer.tokenSymbol || "",
+        name: transfer.tokenName || "",
+        transferCount: 1,
+      });
+    }
+  });
+
+  const topTokens = Array.from(byToken.values())
+    .sort(
+      (a, b) =>
+        b.transferCount - a.transferCount ||
+        a.contractAddress.localeCompare(b.contractAddress)
+    )
+    .slice(0, TOP_TOKENS_LIMIT);
+
+  return {
+    tokenTransferCount,
+    uniqueTokens: byToken.size,
+    topTokens,
+  };
+}
+
+/**
+ * Break a wallet's transactions down by the labelled protocol they called
+ * @param transactions - Array of transactions
+ * @param labels - Contract labels keyed by lowercase address
+ * @returns Protocol metrics, counting only activity after launch. Reverted
+ * calls add to a protocol's gas but not its transaction count.
+ */
+export function calculateProtocolMetrics(
+  transactions: Record<string, string>[],
+  labels: ContractLabelLookup
+): ProtocolMetrics {
+  const launchDate = getLaunchDate();
+  const byProtocol = new Map<
+    string,
+    { category: ProtocolActivity["category"]; txCount: number; gasWei: bigint }
+  >();
+
+  transactions.forEach((tx) => {
+    const timestamp = parseInt(tx.timeStamp || "0");
+
+    // Skip transactions before Monad launch
+    if (timestamp < launchDate) {
+      return;
+    }
+
+    const label = labels.get((tx.to || "").toLowerCase());
+    if (!label) {
+      return;
+    }
+
+    const existing = byProtocol.get(label.protocol) || {
+      category: label.category,
+      txCount: 0,
+      gasWei: BigInt(0),
+    };
+    if (!isFailedTransaction(tx)) {
+      existing.txCount += 1;
+    }
+    existing.gasWei += getGasCostWei(tx);
+    byProtocol.set(label.protocol, existing);
+  });
+
+  const protocols = Array.from(byProtocol.entries())
+    .map(([protocol, activity]) => ({
+      protocol,
+      category: activity.category,
+      txCount: activity.txCount,
+      gasSpentMON: weiToMON(activity.gasWei),
+    }))
+    .sort(
+      (a, b) => b.txCount - a.txCount || a.protocol.localeCompare(b.protocol)
+    );
+
+  return {
+    protocols,
+    // A protocol only counts once the wallet has used it successfully
+    distinctProtocols: protocols.filter((protocol) => protocol.txCount > 0)
+      .length,
+  };
+}
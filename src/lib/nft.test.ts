@@ -0,0 +1,388 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { MagicEdenCollection } from "@/types";
+import {
+  NFT_COLLECTIONS_PAGE_SIZE,
+  fetchNFTHoldings,
+  validateNFTCollection,
+} from "@/lib/nft";
+import { DEFAULT_NFT_VALUATION_CONFIG } from "@/lib/nftValuation";
+import { DEFAULT_NFT_VALIDATION_CONFIG } from "@/lib/nftValidationConfig";
+import {
+  SuspiciousActivityInput,
+  recordSuspiciousActivities,
+} from "@/lib/suspiciousActivity";
+
+vi.mock("@/lib/suspiciousActivity", () => ({
+  recordSuspiciousActivities: vi.fn(),
+}));
+
+const WALLET = "0x1000000000000000000000000000000000000004";
+const THRESHOLDS = DEFAULT_NFT_VALIDATION_CONFIG.thresholds;
+
+const collection = ({
+  contractKind = "erc721",
+  tokenCount = 5000,
+  volume7day = 100,
+}: {
+  contractKind?: "erc721" | "erc1155";
+  tokenCount?: number;
+  volume7day?: number;
+} = {}) =>
+  ({
+    collection: {
+      name: "Test Collection",
+      contractKind,
+      tokenCount: String(tokenCount),
+      volume: { "1day": 0, "7day": volume7day, "30day": 0, allTime: 0 },
+    },
+    ownership: { tokenCount: "1", onSaleCount: "0" },
+  }) as MagicEdenCollection;
+
+describe("validateNFTCollection", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("accepts a healthy collection at floor price times holdings", () => {
+    expect(validateNFTCollection(collection(), 2.5, 4, WALLET)).toEqual({
+      isValid: true,
+      adjustedValue: 10,
+      configVersion: DEFAULT_NFT_VALIDATION_CONFIG.version,
+    });
+  });
+
+  it("checks against the given config and records its version", () => {
+    const config = {
+      version: 7,
+      thresholds: { ...THRESHOLDS, minFloorPrice: 5 },
+    };
+    const suspiciousEvents: SuspiciousActivityInput[] = [];
+    const result = validateNFTCollection(
+      collection(),
+      2.5,
+      4,
+      WALLET,
+      suspiciousEvents,
+      undefined,
+      config
+    );
+
+    expect(result).toMatchObject({ isValid: false, configVersion: 7 });
+    expect(suspiciousEvents[0].details).toMatchObject({
+      minimumRequired: 5,
+      configVersion: 7,
+    });
+  });
+
+  it("rejects a floor price below the minimum", () => {
+    const result = validateNFTCollection(
+      collection(),
+      THRESHOLDS.minFloorPrice / 2,
+      1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.adjustedValue).toBe(0);
+    expect(result.reason).toMatch(/Floor price too low/);
+  });
+
+  it("accepts a floor price exactly at the minimum", () => {
+    expect(
+      validateNFTCollection(collection(), THRESHOLDS.minFloorPrice, 1, WALLET)
+        .isValid
+    ).toBe(true);
+  });
+
+  it("rejects suspiciously large ERC721 holdings", () => {
+    const result = validateNFTCollection(
+      collection({ tokenCount: 1_000_000 }),
+      1,
+      THRESHOLDS.suspiciousHoldingsThreshold + 1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Suspicious holdings/);
+  });
+
+  it("rejects suspiciously large ERC1155 holdings", () => {
+    const result = validateNFTCollection(
+      collection({ contractKind: "erc1155", tokenCount: 1 }),
+      1,
+      THRESHOLDS.erc1155SuspiciousThreshold + 1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Suspicious holdings/);
+  });
+
+  it("rejects low but non-zero trading volume", () => {
+    const result = validateNFTCollection(
+      collection({ volume7day: THRESHOLDS.minTradingVolume / 2 }),
+      1,
+      1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Low trading volume/);
+  });
+
+  it("skips the volume check when there is no volume data", () => {
+    expect(
+      validateNFTCollection(collection({ volume7day: 0 }), 1, 1, WALLET)
+        .isValid
+    ).toBe(true);
+  });
+
+  it("rejects ERC721 holdings too large relative to the collection", () => {
+    const result = validateNFTCollection(
+      collection({ tokenCount: 2 }),
+      1,
+      THRESHOLDS.maxHoldingsMultiplier * 2 + 1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Holdings too large relative to collection/);
+  });
+
+  it("rejects ERC721 collections below the minimum size", () => {
+    const result = validateNFTCollection(
+      collection({ tokenCount: THRESHOLDS.minCollectionSize - 1 }),
+      1,
+      1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Collection too small/);
+  });
+
+  it("skips the size checks for ERC1155 collections", () => {
+    expect(
+      validateNFTCollection(
+        collection({ contractKind: "erc1155", tokenCount: 1 }),
+        1,
+        100,
+        WALLET
+      ).isValid
+    ).toBe(true);
+  });
+
+  it("rejects a collection worth more than the per-collection cap", () => {
+    const result = validateNFTCollection(
+      collection(),
+      THRESHOLDS.maxValuePerCollection + 1,
+      1,
+      WALLET
+    );
+
+    expect(result.isValid).toBe(false);
+    expect(result.reason).toMatch(/Collection value too high/);
+  });
+
+  it("rejects a denied collection before any threshold", () => {
+    const result = validateNFTCollection(
+      collection(),
+      2.5,
+      4,
+      WALLET,
+      undefined,
+      "deny"
+    );
+
+    expect(result).toEqual({
+      isValid: false,
+      reason: "Collection is on the deny list",
+      adjustedValue: 0,
+      configVersion: DEFAULT_NFT_VALIDATION_CONFIG.version,
+    });
+  });
+
+  it("values an allowed collection even if it fails the thresholds", () => {
+    expect(
+      validateNFTCollection(
+        collection({ tokenCount: 1, volume7day: 0.001 }),
+        THRESHOLDS.minFloorPrice / 2,
+        2,
+        WALLET,
+        undefined,
+        "allow"
+      )
+    ).toEqual({
+      isValid: true,
+      adjustedValue: THRESHOLDS.minFloorPrice,
+      configVersion: DEFAULT_NFT_VALIDATION_CONFIG.version,
+    });
+  });
+
+  it("stores rejections instead of printing them", () => {
+    const suspiciousEvents: SuspiciousActivityInput[] = [];
+    validateNFTCollection(collection(), 0, 1, WALLET, suspiciousEvents);
+
+    expect(console.warn).not.toHaveBeenCalled();
+    expect(suspiciousEvents).toEqual([
+      expect.objectContaining({
+        walletAddress: WALLET,
+        reason: "Floor price too low",
+      }),
+    ]);
+  });
+});
+
+describe("fetchNFTHoldings", () => {
+  const held = (index: number, floor: number) =>
+    ({
+      collection: {
+        name: `Collection ${index}`,
+        image: "",
+        primaryContract: `0xC${index}`,
+        contractKind: "erc721",
+        tokenCount: "5000",
+        floorSale: { "1day": null, "7day": floor, "30day": null },
+        volume: { "1day": 0, "7day": 100, "30day": 0, allTime: 0 },
+      },
+      ownership: { tokenCount: "2", onSaleCount: "0" },
+    }) as MagicEdenCollection;
+
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("pages through every collection and values each one", async () => {
+    const collections = Array.from(
+      { length: NFT_COLLECTIONS_PAGE_SIZE + 20 },
+      (_, index) => held(index, index === 7 ? 0 : 1 + index / 1000)
+    );
+    const fetchMock = vi.fn(async (url: string) => {
+      const offset = Number(new URL(url).searchParams.get("offset"));
+      return new Response(
+        JSON.stringify({
+          collections: collections.slice(
+            offset,
+            offset + NFT_COLLECTIONS_PAGE_SIZE
+          ),
+        })
+      );
+    });
+    vi.stubGlobal("fetch", fetchMock);
+
+    const holdings = await fetchNFTHoldings(
+      WALLET,
+      DEFAULT_NFT_VALUATION_CONFIG,
+      new Map(),
+      DEFAULT_NFT_VALIDATION_CONFIG
+    );
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(holdings.collections).toHaveLength(collections.length);
+    expect(holdings.collections[0]).toEqual({
+      contractAddress: "0xc119",
+      name: "Collection 119",
+      image: null,
+      heldCount: 2,
+      unitPrice: 1.119,
+      value: 2.238,
+      isRejected: false,
+      validationVersion: DEFAULT_NFT_VALIDATION_CONFIG.version,
+    });
+    expect(holdings.collections.at(-1)).toMatchObject({
+      name: "Collection 7",
+      value: 0,
+      isRejected: true,
+      rejectionReason: expect.stringMatching(/Floor price too low/),
+    });
+    expect(recordSuspiciousActivities).toHaveBeenCalledWith([
+      expect.objectContaining({
+        collection: "Collection 7",
+        reason: "Floor price too low",
+      }),
+    ]);
+    expect(holdings.totalValue).toBeCloseTo(
+      holdings.collections.reduce((total, { value }) => total + value, 0)
+    );
+    expect(holdings.fetchFailed).toBe(false);
+  });
+
+  it("caps the bag value at the config's total and records its version", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () =>
+          new Response(
+            JSON.stringify({ collections: [held(1, 5), held(2, 5)] })
+          )
+      )
+    );
+    const validation = {
+      version: 3,
+      thresholds: { ...THRESHOLDS, maxTotalValue: 12 },
+    };
+
+    const holdings = await fetchNFTHoldings(
+      WALLET,
+      DEFAULT_NFT_VALUATION_CONFIG,
+      new Map(),
+      validation
+    );
+
+    expect(holdings.totalValue).toBe(12);
+    expect(holdings.validationVersion).toBe(3);
+    expect(holdings.collections[0].validationVersion).toBe(3);
+    expect(recordSuspiciousActivities).toHaveBeenCalledWith([
+      expect.objectContaining({
+        reason: "NFT bag value capped",
+        details: { totalValue: 20, maxTotalValue: 12, configVersion: 3 },
+      }),
+    ]);
+  });
+
+  it("can skip storing suspicious activity", async () => {
+    vi.mocked(recordSuspiciousActivities).mockClear();
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(
+        async () => new Response(JSON.stringify({ collections: [held(1, 0)] }))
+      )
+    );
+
+    const holdings = await fetchNFTHoldings(
+      WALLET,
+      DEFAULT_NFT_VALUATION_CONFIG,
+      new Map(),
+      DEFAULT_NFT_VALIDATION_CONFIG,
+      false
+    );
+
+    expect(holdings.collections[0].isRejected).toBe(true);
+    expect(recordSuspiciousActivities).not.toHaveBeenCalled();
+  });
+
+  it("flags a failed fetch so it isn't mistaken for an empty wallet", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async () => new Response("", { status: 500 }))
+    );
+
+    expect(
+      await fetchNFTHoldings(
+        WALLET,
+        DEFAULT_NFT_VALUATION_CONFIG,
+        new Map(),
+        DEFAULT_NFT_VALIDATION_CONFIG
+      )
+    ).toMatchObject({
+      totalValue: 0,
+      collections: [],
+      fetchFailed: true,
+    });
+  });
+});
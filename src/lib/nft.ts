@@ -0,0 +1,426 @@
+import {
+  MagicEdenUserCollections,
+  MagicEdenCollection,
+  NFTCollectionHolding,
+  NFTCollectionListType,
+} from "@/types";
+import {
+  recordSuspiciousActivities,
+  SuspiciousActivityInput,
+} from "@/lib/suspiciousActivity";
+import {
+  NFTValuationConfig,
+  getNFTUnitPrice,
+  getNFTValuationConfig,
+  valueNFTHoldings,
+} from "@/lib/nftValuation";
+import {
+  NFTCollectionListLookup,
+  loadNFTCollectionLists,
+} from "@/lib/nftCollectionLists";
+import {
+  DEFAULT_NFT_VALIDATION_CONFIG,
+  NFTValidationConfig,
+  getActiveNFTValidationConfig,
+} from "@/lib/nftValidationConfig";
+
+// Collections requested per Magic Eden page (the API maximum)
+export const NFT_COLLECTIONS_PAGE_SIZE = 100;
+// Stop paging after this many pages so a broken API can't loop forever
+const NFT_MAX_COLLECTION_PAGES = 100;
+
+/**
+ * A wallet's NFT bag value and the per-collection breakdown behind it
+ */
+export interface NFTHoldings {
+  totalValue: number;
+  collections: NFTCollectionHolding[];
+  /** Valuation the holdings were priced with */
+  valuation: NFTValuationConfig;
+  /** NFT validation version the collections were checked against */
+  validationVersion: number;
+  /** Magic Eden couldn't be read, so the zero values aren't the wallet's */
+  fetchFailed: boolean;
+}
+
+/**
+ * Outcome of validating one collection
+ */
+export interface NFTValidationResult {
+  isValid: boolean;
+  reason?: string;
+  adjustedValue: number;
+  /** NFT validation version that accepted or rejected the collection */
+  configVersion: number;
+}
+
+/**
+ * Collect suspicious NFT activity for storage when an events array is given
+ */
+function addSuspiciousNFTActivity(
+  walletAddress: string,
+  collectionName: string,
+  reason: string,
+  details: Record<string, unknown>,
+  events?: SuspiciousActivityInput[]
+) {
+  events?.push({ walletAddress, collection: collectionName, reason, details });
+}
+
+/**
+ * Validate NFT collection data to prevent wash trading manipulation
+ * @param unitPrice - Per-token price from the valuation strategy, in MON
+ * @param suspiciousEvents - Optional array that failed checks are added to,
+ * so the caller can store them
+ * @param listType - Admin list the collection is on, checked before any
+ * threshold
+ * @param config - Validation thresholds (default: the built-in version)
+ */
+export function validateNFTCollection(
+  collection: MagicEdenCollection,
+  unitPrice: number,
+  holdingItems: number,
+  walletAddress: string,
+  suspiciousEvents?: SuspiciousActivityInput[],
+  listType?: NFTCollectionListType,
+  config: NFTValidationConfig = DEFAULT_NFT_VALIDATION_CONFIG
+): NFTValidationResult {
+  const collectionName = collection.collection.name || "Unknown";
+  const rawValue = unitPrice * holdingItems;
+  const { thresholds, version: configVersion } = config;
+
+  // Admin lists override the thresholds below
+  if (listType === "deny") {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Collection on deny list",
+      {
+        contractAddress: collection.collection.primaryContract,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: "Collection is on the deny list",
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+  if (listType === "allow") {
+    return { isValid: true, adjustedValue: rawValue, configVersion };
+  }
+
+  // Detect if this is an ERC1155 collection
+  const isERC1155 = collection.collection.contractKind === "erc1155";
+
+  // Check 1: Minimum floor price
+  if (unitPrice < thresholds.minFloorPrice) {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Floor price too low",
+      {
+        floorPrice: unitPrice,
+        minimumRequired: thresholds.minFloorPrice,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: `Floor price too low: ${unitPrice} MON`,
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+
+  // Check 2: Suspiciously large holdings (different thresholds for ERC1155 vs ERC721)
+  const holdingsThreshold = isERC1155
+    ? thresholds.erc1155SuspiciousThreshold
+    : thresholds.suspiciousHoldingsThreshold;
+
+  if (holdingItems > holdingsThreshold) {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Suspiciously large holdings",
+      {
+        holdings: holdingItems,
+        threshold: holdingsThreshold,
+        isERC1155,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: `Suspicious holdings: ${holdingItems.toLocaleString()} tokens`,
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+  // Check 3: Trading volume validation (if available)
+  const sevenDayVolume = collection.collection.volume?.["7day"] || 0;
+  if (sevenDayVolume > 0 && sevenDayVolume < thresholds.minTradingVolume) {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Low trading volume",
+      {
+        volume: sevenDayVolume,
+        minimumRequired: thresholds.minTradingVolume,
+        isERC1155,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: `Low trading volume: ${sevenDayVolume} MON`,
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+
+  // Check 4: Holdings vs collection size ratio (ERC721 only - skip for ERC1155)
+  const collectionSize = Number(collection.collection.tokenCount) || 0;
+
+  if (!isERC1155 && collectionSize > 0) {
+    const holdingsRatio = holdingItems / collectionSize;
+    if (holdingsRatio > thresholds.maxHoldingsMultiplier) {
+      addSuspiciousNFTActivity(
+        walletAddress,
+        collectionName,
+        "Holdings too large relative to collection",
+        {
+          holdings: holdingItems,
+          collectionSize,
+          ratio: holdingsRatio,
+          maxAllowed: thresholds.maxHoldingsMultiplier,
+          isERC1155,
+          configVersion,
+        },
+        suspiciousEvents
+      );
+      return {
+        isValid: false,
+        reason: `Holdings too large relative to collection: ${(
+          holdingsRatio * 100
+        ).toFixed(1)}%`,
+        adjustedValue: 0,
+        configVersion,
+      };
+    }
+  }
+
+  // Check 5: Minimum collection size (skip for ERC1155 since they often have single token ID)
+  if (
+    !isERC1155 &&
+    collectionSize > 0 &&
+    collectionSize < thresholds.minCollectionSize
+  ) {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Collection too small",
+      {
+        collectionSize,
+        minimumRequired: thresholds.minCollectionSize,
+        isERC1155,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: `Collection too small: ${collectionSize} tokens`,
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+
+  // Check 6: Maximum value per collection to prevent extreme manipulation
+  if (rawValue > thresholds.maxValuePerCollection) {
+    addSuspiciousNFTActivity(
+      walletAddress,
+      collectionName,
+      "Collection value too high",
+      {
+        rawValue,
+        maximumAllowed: thresholds.maxValuePerCollection,
+        isERC1155,
+        configVersion,
+      },
+      suspiciousEvents
+    );
+    return {
+      isValid: false,
+      reason: `Collection value too high: ${rawValue.toLocaleString()} MON`,
+      adjustedValue: 0,
+      configVersion,
+    };
+  }
+
+  // All checks passed
+  return {
+    isValid: true,
+    adjustedValue: rawValue,
+    configVersion,
+  };
+}
+
+/**
+ * Fetch every page of a wallet's collections from Magic Eden
+ * @param walletAddress - Wallet address to check
+ * @param includeTopBid - Whether to request each collection's top bid
+ * @returns Every collection the wallet holds, or null if a request failed
+ */
+async function fetchAllCollections(
+  walletAddress: string,
+  includeTopBid: boolean
+): Promise<MagicEdenCollection[] | null> {
+  const baseUrl =
+    process.env.MAGIC_EDEN_BASE_URL || "https://api-mainnet.magiceden.dev";
+  const collections: MagicEdenCollection[] = [];
+
+  for (let page = 0; page < NFT_MAX_COLLECTION_PAGES; page++) {
+    const offset = page * NFT_COLLECTIONS_PAGE_SIZE;
+    const url = `${baseUrl}/v3/rtp/monad-testnet/users/${walletAddress}/collections/v3?includeTopBid=${includeTopBid}&includeLiquidCount=false&offset=${offset}&limit=${NFT_COLLECTIONS_PAGE_SIZE}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        Accept: "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      console.error(
+        `Magic Eden API error: ${response.status} ${response.statusText}`
+      );
+      return null;
+    }
+
+    const data: MagicEdenUserCollections = await response.json();
+    const pageCollections = data.collections || [];
+    collections.push(...pageCollections);
+
+    // A short page is the last one
+    if (pageCollections.length < NFT_COLLECTIONS_PAGE_SIZE) break;
+  }
+
+  return collections;
+}
+
+/**
+ * Fetch and value a wallet's NFT holdings from Magic Eden
+ * @param walletAddress - Wallet address to check
+ * @param valuation - How to price holdings (default: the configured one)
+ * @param collectionLists - Admin allow and deny lists (default: loaded from
+ * the database)
+ * @param validation - Validation thresholds (default: the active version)
+ * @param recordEvents - Whether to store suspicious activity for review
+ * (off for read-only views and repeated background checks)
+ * @returns NFT bag value in MON and the valuation of every collection, most
+ * valuable first; rejected collections are listed with a value of 0. If
+ * Magic Eden fails, the holdings are empty and fetchFailed is set.
+ */
+export async function fetchNFTHoldings(
+  walletAddress: string,
+  valuation: NFTValuationConfig = getNFTValuationConfig(),
+  collectionLists?: NFTCollectionListLookup,
+  validation?: NFTValidationConfig,
+  recordEvents: boolean = true
+): Promise<NFTHoldings> {
+  const config = validation ?? (await getActiveNFTValidationConfig());
+  const failedFetch: NFTHoldings = {
+    totalValue: 0,
+    collections: [],
+    valuation,
+    validationVersion: config.version,
+    fetchFailed: true,
+  };
+
+  try {
+    const lists = collectionLists ?? (await loadNFTCollectionLists());
+    const collections = await fetchAllCollections(
+      walletAddress,
+      valuation.strategy === "topBid"
+    );
+    if (!collections) return failedFetch;
+
+    const suspiciousEvents: SuspiciousActivityInput[] = [];
+
+    // Value every collection with validation
+    const holdings = collections.map((collection): NFTCollectionHolding => {
+      const contractAddress = (
+        collection.collection.primaryContract || ""
+      ).toLowerCase();
+      const listType = lists.get(contractAddress);
+      const unitPrice = getNFTUnitPrice(collection, valuation.strategy);
+      const holdingItems = Number(collection.ownership.tokenCount) || 1;
+
+      // Validate the collection data
+      const validation = validateNFTCollection(
+        collection,
+        unitPrice,
+        holdingItems,
+        walletAddress,
+        suspiciousEvents,
+        listType,
+        config
+      );
+
+      return {
+        contractAddress,
+        name: collection.collection.name || "Unknown",
+        image: collection.collection.image || null,
+        heldCount: holdingItems,
+        unitPrice,
+        value: validation.isValid
+          ? valueNFTHoldings(collection, unitPrice, holdingItems, valuation)
+          : 0,
+        isRejected: !validation.isValid,
+        validationVersion: validation.configVersion,
+        ...(validation.reason && { rejectionReason: validation.reason }),
+        ...(listType && { listType }),
+      };
+    });
+
+    const totalValue = holdings.reduce(
+      (total, holding) => total + holding.value,
+      0
+    );
+
+    // Final safety check: cap the total value to prevent extreme manipulation
+    const { maxTotalValue } = config.thresholds;
+    if (totalValue > maxTotalValue) {
+      suspiciousEvents.push({
+        walletAddress,
+        reason: "NFT bag value capped",
+        details: {
+          totalValue,
+          maxTotalValue,
+          configVersion: config.version,
+        },
+      });
+    }
+
+    if (recordEvents) {
+      await recordSuspiciousActivities(suspiciousEvents);
+    }
+
+    return {
+      totalValue: Math.min(totalValue, maxTotalValue),
+      collections: holdings.sort((a, b) => b.value - a.value),
+      valuation,
+      validationVersion: config.version,
+      fetchFailed: false,
+    };
+  } catch (error) {
+    console.error("Error fetching NFT holdings:", error);
+    return failedFetch;
+  }
+}
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { prisma } from "@/lib/prisma";
+import { NFTCollectionListType } from "@/types";
+
+export const NFT_COLLECTION_LIST_TYPES = [
+  "allow",
+  "deny",
+] as const satisfies readonly NFTCollectionListType[];
+
+/**
+ * List each listed collection is on, keyed by lowercase primary contract
+ */
+export type NFTCollectionListLookup = Map<string, NFTCollectionListType>;
+
+// Zod schema for adding a collection to a list through the admin API
+export const nftCollectionListSchema = z.object({
+  contractAddress: z
+    .string()
+    .regex(/^0x[a-fA-F0-9]{40}$/, "Invalid contract address")
+    .transform((address) => address.toLowerCase()),
+  list: z.enum(NFT_COLLECTION_LIST_TYPES),
+  reason: z.string().trim().max(500).optional(),
+});
+
+export type NFTCollectionListInput = z.infer<typeof nftCollectionListSchema>;
+
+/**
+ * Load the allow and deny lists for NFT valuation. A failed lookup yields
+ * empty lists, leaving every collection to the validation thresholds.
+ * @returns Lists keyed by lowercase primary contract
+ */
+export async function loadNFTCollectionLists(): Promise<NFTCollectionListLookup> {
+  try {
+    const rows = await prisma.nftCollectionList.findMany();
+
+    return new Map(
+      rows.map((row) => [
+        row.contractAddress,
+        row.list as NFTCollectionListType,
+      ])
+    );
+  } catch (error) {
+    console.error("Error loading NFT collection lists:", error);
+    return new Map();
+  }
+}
+
+/**
+ * List every allowed and denied collection, most recently changed first
+ */
+export async function listNFTCollectionLists() {
+  return prisma.nftCollectionList.findMany({
+    orderBy: [{ updatedAt: "desc" }],
+  });
+}
+
+/**
+ * Add a collection to a list, moving it if it's on the other one
+ * @param input - Validated list entry
+ * @returns The stored entry
+ */
+export async function upsertNFTCollectionList(input: NFTCollectionListInput) {
+  return prisma.nftCollectionList.upsert({
+    where: { contractAddress: input.contractAddress },
+    update: { list: input.list, reason: input.reason ?? null },
+    create: input,
+  });
+}
+
+/**
+ * Remove a collection from whichever list it's on
+ * @param contractAddress - Collection primary contract (case-insensitive)
+ * @returns True if the collection was listed
+ */
+export async function deleteNFTCollectionList(
+  contractAddress: string
+): Promise<boolean> {
+  const { count } = await prisma.nftCollectionList.deleteMany({
+    where: { contractAddress: contractAddress.toLowerCase() },
+  });
+
+  return count > 0;
+}
@@ -0,0 +1,123 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { runJob } from "@/lib/jobs";
+import { NFTHoldings, fetchNFTHoldings } from "@/lib/nft";
+import { loadNFTCollectionLists } from "@/lib/nftCollectionLists";
+import { getNFTValuationConfig } from "@/lib/nftValuation";
+import { getActiveNFTValidationConfig } from "@/lib/nftValidationConfig";
+import { getUtcDayStart } from "@/lib/utils";
+import { NFTValueDataPoint } from "@/types";
+
+export const NFT_SNAPSHOT_JOB_NAME = "nft-snapshot";
+
+/**
+ * Record a wallet's NFT holdings for a UTC day. Recording again on the
+ * same day replaces that day's snapshot.
+ * @param userId - User the holdings belong to
+ * @param holdings - Valued holdings from fetchNFTHoldings
+ * @param date - Day to snapshot (defaults to today)
+ */
+export async function recordNFTHoldingsSnapshot(
+  userId: string,
+  holdings: NFTHoldings,
+  date: Date = new Date()
+): Promise<void> {
+  const snapshotDate = getUtcDayStart(date);
+  const data = {
+    totalValue: holdings.totalValue,
+    // Copy into plain objects so the holdings fit Prisma's JSON input type
+    collections: holdings.collections.map((holding) => ({
+      ...holding,
+    })) as Prisma.InputJsonArray,
+    valuationStrategy: holdings.valuation.strategy,
+    erc1155Discount: holdings.valuation.erc1155Discount,
+  };
+
+  await prisma.nftHoldingsSnapshot.upsert({
+    where: { userId_date: { userId, date: snapshotDate } },
+    create: { userId, date: snapshotDate, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Get a wallet's daily NFT bag values
+ * @param userId - User to load
+ * @returns Snapshot values, oldest first
+ */
+export async function getNFTValueHistory(
+  userId: string
+): Promise<NFTValueDataPoint[]> {
+  const snapshots = await prisma.nftHoldingsSnapshot.findMany({
+    where: { userId },
+    select: { date: true, totalValue: true },
+    orderBy: { date: "asc" },
+  });
+
+  return snapshots.map((snapshot) => ({
+    date: snapshot.date.toISOString().slice(0, 10),
+    value: snapshot.totalValue,
+  }));
+}
+
+/**
+ * Re-fetch and snapshot the NFT holdings of every wallet that held NFTs at
+ * its last lookup, plus wallets valued before held collections were stored.
+ * Stored bag values and scores are left alone; the snapshots only feed the
+ * bag value history. Wallets whose holdings can't be fetched are skipped,
+ * keeping any snapshot already taken that day.
+ * @param date - Day to snapshot (defaults to today)
+ * @returns Number of wallets snapshotted
+ */
+export async function snapshotNFTHoldings(
+  date: Date = new Date()
+): Promise<number> {
+  return runJob(NFT_SNAPSHOT_JOB_NAME, async (reportProgress) => {
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { nftCollections: { isEmpty: false } },
+          { nftBagValue: { gt: 0 } },
+        ],
+      },
+      select: { id: true, walletAddress: true },
+      orderBy: { id: "asc" },
+    });
+
+    // Every wallet is priced with the same lists, strategy and thresholds
+    const collectionLists = await loadNFTCollectionLists();
+    const valuation = getNFTValuationConfig();
+    const validation = await getActiveNFTValidationConfig();
+    console.log(`Snapshotting NFT holdings of ${users.length} wallets`);
+
+    let processed = 0;
+    let failed = 0;
+    for (const user of users) {
+      const holdings = await fetchNFTHoldings(
+        user.walletAddress,
+        valuation,
+        collectionLists,
+        validation,
+        false // Rejections were already stored when the wallet was looked up
+      );
+
+      // A zero from a failed fetch would show as a crash in the history
+      if (holdings.fetchFailed) {
+        failed++;
+        continue;
+      }
+      await recordNFTHoldingsSnapshot(user.id, holdings, date);
+
+      processed++;
+      await reportProgress(processed);
+    }
+
+    if (failed > 0) {
+      console.warn(
+        `Skipped ${failed} wallets whose NFT holdings couldn't be fetched`
+      );
+    }
+
+    return processed;
+  });
+}
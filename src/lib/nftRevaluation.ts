@@ -0,0 +1,96 @@
+import { prisma } from "@/lib/prisma";
+import { claimJobRun, runJob } from "@/lib/jobs";
+import { fetchNFTHoldings } from "@/lib/nft";
+import { recordNFTHoldingsSnapshot } from "@/lib/nftHistory";
+import { loadNFTCollectionLists } from "@/lib/nftCollectionLists";
+import { getNFTValuationConfig } from "@/lib/nftValuation";
+import { getActiveNFTValidationConfig } from "@/lib/nftValidationConfig";
+import { RESCORE_JOB_NAME, rescoreAllUsers } from "@/lib/rescoring";
+
+export const NFT_REVALUE_JOB_NAME = "revalue-nfts";
+
+/**
+ * Re-value the NFT holdings of wallets holding the given collections, then
+ * rescore the leaderboard
+ * @param contractAddresses - Collection primary contracts (case-insensitive)
+ * @returns Number of wallets re-valued
+ */
+export async function revalueNFTHolders(
+  contractAddresses: string[]
+): Promise<number> {
+  const contracts = contractAddresses.map((address) => address.toLowerCase());
+
+  return runJob(NFT_REVALUE_JOB_NAME, async (reportProgress) => {
+    const users = await prisma.user.findMany({
+      where: {
+        OR: [
+          { nftCollections: { hasSome: contracts } },
+          // Valued before held collections were stored
+          { nftCollections: { isEmpty: true }, nftBagValue: { gt: 0 } },
+        ],
+      },
+      select: { id: true, walletAddress: true },
+      orderBy: { id: "asc" },
+    });
+
+    // Every wallet is priced with the same lists, strategy and thresholds
+    const collectionLists = await loadNFTCollectionLists();
+    const valuation = getNFTValuationConfig();
+    const validation = await getActiveNFTValidationConfig();
+    console.log(`Re-valuing NFT holdings of ${users.length} wallets`);
+
+    let processed = 0;
+    let failed = 0;
+    for (const user of users) {
+      const holdings = await fetchNFTHoldings(
+        user.walletAddress,
+        valuation,
+        collectionLists,
+        validation
+      );
+
+      // A failed fetch would wipe the stored bag value, so leave it alone
+      if (holdings.fetchFailed) {
+        failed++;
+        continue;
+      }
+
+      await prisma.user.update({
+        where: { id: user.id },
+        data: {
+          nftBagValue: holdings.totalValue,
+          nftValuationStrategy: valuation.strategy,
+          nftErc1155Discount: valuation.erc1155Discount,
+          nftValidationVersion: holdings.validationVersion,
+          nftCollections: holdings.collections.map(
+            (holding) => holding.contractAddress
+          ),
+        },
+      });
+      await recordNFTHoldingsSnapshot(user.id, holdings);
+
+      processed++;
+      await reportProgress(processed);
+    }
+
+    if (failed > 0) {
+      console.warn(
+        `Skipped ${failed} wallets whose NFT holdings couldn't be fetched`
+      );
+    }
+
+    // Two rescoring passes at once would race each other's writes
+    if (processed > 0) {
+      const rescoreRun = await claimJobRun(RESCORE_JOB_NAME);
+      if (rescoreRun) {
+        await rescoreAllUsers(undefined, rescoreRun);
+      } else {
+        console.warn(
+          "Rescoring is already running - skipped it; rescore again to pick up the new NFT values"
+        );
+      }
+    }
+
+    return processed;
+  });
+}
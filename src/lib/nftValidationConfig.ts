@@ -0,0 +1,164 @@
+import { z } from "zod";
+import type { NftValidationConfig as NFTValidationConfigRow } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Zod schema for the thresholds NFT collections are validated against
+export const nftValidationThresholdsSchema = z.object({
+  minFloorPrice: z.number().min(0), // Minimum per-token price in MON
+  maxHoldingsMultiplier: z.number().positive(), // Max holdings relative to collection size for ERC721
+  minTradingVolume: z.number().min(0), // Minimum 7-day trading volume in MON
+  suspiciousHoldingsThreshold: z.number().int().positive(), // Flag ERC721 holdings over this many tokens
+  minCollectionSize: z.number().int().min(0), // Minimum collection size to be considered valid
+  maxValuePerCollection: z.number().positive(), // Maximum value per collection in MON
+  erc1155SuspiciousThreshold: z.number().int().positive(), // Flag ERC1155 holdings over this many tokens
+  maxTotalValue: z.number().positive(), // Cap on a wallet's total bag value in MON
+});
+
+export type NFTValidationThresholds = z.infer<
+  typeof nftValidationThresholdsSchema
+>;
+
+/**
+ * A versioned set of NFT validation thresholds
+ */
+export interface NFTValidationConfig {
+  version: number;
+  thresholds: NFTValidationThresholds;
+}
+
+// Thresholds used when no version is stored in the database
+export const DEFAULT_NFT_VALIDATION_CONFIG: NFTValidationConfig = {
+  version: 1,
+  thresholds: {
+    minFloorPrice: 0.001,
+    maxHoldingsMultiplier: 1000,
+    minTradingVolume: 0.01,
+    suspiciousHoldingsThreshold: 10000,
+    minCollectionSize: 10,
+    maxValuePerCollection: 1000000,
+    erc1155SuspiciousThreshold: 10000,
+    maxTotalValue: 10000000,
+  },
+};
+
+// Zod schema for creating a new validation version through the admin API.
+// Thresholds left out are copied from the active version.
+export const createNFTValidationConfigSchema = z.object({
+  thresholds: nftValidationThresholdsSchema.partial(),
+  description: z.string().max(500).optional(),
+  activate: z.boolean().default(false),
+});
+
+export type CreateNFTValidationConfigInput = z.infer<
+  typeof createNFTValidationConfigSchema
+>;
+
+/**
+ * Parse a stored validation config row, validating its thresholds
+ * @param row - Validation config row from the database
+ * @returns Parsed validation config
+ */
+function parseNFTValidationConfig(
+  row: NFTValidationConfigRow
+): NFTValidationConfig {
+  return {
+    version: row.version,
+    thresholds: nftValidationThresholdsSchema.parse(row.thresholds),
+  };
+}
+
+/**
+ * Get the active NFT validation config, falling back to the built-in
+ * defaults if none is stored or the stored one is invalid
+ * @returns Active validation config
+ */
+export async function getActiveNFTValidationConfig(): Promise<NFTValidationConfig> {
+  try {
+    const row = await prisma.nftValidationConfig.findFirst({
+      where: { isActive: true },
+      orderBy: { version: "desc" },
+    });
+
+    if (!row) {
+      console.warn("No active NFT validation config found, using defaults");
+      return DEFAULT_NFT_VALIDATION_CONFIG;
+    }
+
+    return parseNFTValidationConfig(row);
+  } catch (error) {
+    console.error("Error loading active NFT validation config:", error);
+    return DEFAULT_NFT_VALIDATION_CONFIG;
+  }
+}
+
+/**
+ * List every stored NFT validation version, newest first
+ */
+export async function listNFTValidationConfigs() {
+  return prisma.nftValidationConfig.findMany({
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Store a new NFT validation version, optionally making it the active one
+ * @param input - Validated input; missing thresholds come from the active
+ * version
+ * @returns The created validation config row
+ */
+export async function createNFTValidationConfig(
+  input: CreateNFTValidationConfigInput
+) {
+  const active = await getActiveNFTValidationConfig();
+  const thresholds = nftValidationThresholdsSchema.parse({
+    ...active.thresholds,
+    ...input.thresholds,
+  });
+
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.nftValidationConfig.findFirst({
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    if (input.activate) {
+      await tx.nftValidationConfig.updateMany({
+        where: { isActive: true },
+        data: { isActive: false },
+      });
+    }
+
+    return tx.nftValidationConfig.create({
+      data: {
+        version: (latest?.version ?? 0) + 1,
+        isActive: input.activate,
+        description: input.description,
+        thresholds,
+      },
+    });
+  });
+}
+
+/**
+ * Make an existing NFT validation version the active one
+ * @param version - Version to activate
+ * @returns The activated validation config row, or null if it doesn't exist
+ */
+export async function activateNFTValidationConfig(version: number) {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.nftValidationConfig.findUnique({
+      where: { version },
+    });
+    if (!target) return null;
+
+    await tx.nftValidationConfig.updateMany({
+      where: { isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.nftValidationConfig.update({
+      where: { version },
+      data: { isActive: true },
+    });
+  });
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { MagicEdenCollection, MagicEdenFloorAskPrice } from "@/types";
+import {
+  DEFAULT_NFT_VALUATION_CONFIG,
+  ERC1155_FULL_PRICE_UNITS,
+  getNFTUnitPrice,
+  getNFTValuationConfig,
+  parseNFTValuation,
+  valueNFTHoldings,
+} from "@/lib/nftValuation";
+
+const floorAskPrice: MagicEdenFloorAskPrice = {
+  currency: { symbol: "MON" },
+  amount: { raw: "2500000000000000000", decimal: 2.5, native: 2.5 },
+};
+
+const collection = ({
+  contractKind = "erc721",
+  tokenCount = 1000,
+}: {
+  contractKind?: "erc721" | "erc1155";
+  tokenCount?: number;
+} = {}) =>
+  ({
+    collection: {
+      name: "Test Collection",
+      contractKind,
+      tokenCount: String(tokenCount),
+      floorSale: { "1day": 4, "7day": 2, "30day": null },
+      volume: { "1day": 10, "7day": 30, "30day": 90, allTime: 90 },
+      floorAskPrice,
+      topBidValue: 1.5,
+    },
+    ownership: { tokenCount: "1", onSaleCount: "0" },
+  }) as MagicEdenCollection;
+
+describe("getNFTUnitPrice", () => {
+  it("reads the price for each strategy", () => {
+    expect(getNFTUnitPrice(collection(), "floorSale1d")).toBe(4);
+    expect(getNFTUnitPrice(collection(), "floorSale7d")).toBe(2);
+    expect(getNFTUnitPrice(collection(), "floorAsk")).toBe(2.5);
+    expect(getNFTUnitPrice(collection(), "topBid")).toBe(1.5);
+  });
+
+  it("returns 0 when the collection has no such price", () => {
+    expect(getNFTUnitPrice(collection(), "floorSale30d")).toBe(0);
+  });
+
+  it("weights floor sales by the volume in each window", () => {
+    // The 30-day window has no floor sale, so only 1 and 7 days count
+    expect(getNFTUnitPrice(collection(), "volumeWeighted")).toBe(
+      (4 * 10 + 2 * 30) / 40
+    );
+  });
+});
+
+describe("valueNFTHoldings", () => {
+  const discount = { ...DEFAULT_NFT_VALUATION_CONFIG, erc1155Discount: true };
+
+  it("multiplies the price by the holdings without the discount", () => {
+    const erc1155 = collection({ contractKind: "erc1155", tokenCount: 100 });
+
+    expect(valueNFTHoldings(erc1155, 2, 50, DEFAULT_NFT_VALUATION_CONFIG)).toBe(
+      100
+    );
+  });
+
+  it("discounts ERC-1155 units past the full-price units by supply share", () => {
+    const erc1155 = collection({ contractKind: "erc1155", tokenCount: 100 });
+
+    // 10 units at full price, 40 more at half price for holding half the supply
+    expect(valueNFTHoldings(erc1155, 2, 50, discount)).toBe(2 * (10 + 20));
+    expect(
+      valueNFTHoldings(erc1155, 2, ERC1155_FULL_PRICE_UNITS, discount)
+    ).toBe(2 * ERC1155_FULL_PRICE_UNITS);
+  });
+
+  it("leaves ERC-721 holdings undiscounted", () => {
+    expect(valueNFTHoldings(collection(), 2, 50, discount)).toBe(100);
+  });
+});
+
+describe("getNFTValuationConfig", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses the 7-day floor sale by default", () => {
+    vi.stubEnv("NFT_VALUATION_STRATEGY", "");
+    vi.stubEnv("NFT_ERC1155_DISCOUNT", "");
+
+    expect(getNFTValuationConfig()).toEqual(DEFAULT_NFT_VALUATION_CONFIG);
+  });
+
+  it("reads the strategy and discount from the environment", () => {
+    vi.stubEnv("NFT_VALUATION_STRATEGY", "topBid");
+    vi.stubEnv("NFT_ERC1155_DISCOUNT", "true");
+
+    expect(getNFTValuationConfig()).toEqual({
+      strategy: "topBid",
+      erc1155Discount: true,
+    });
+  });
+
+  it("falls back to the default for invalid settings", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.stubEnv("NFT_VALUATION_STRATEGY", "lastSale");
+
+    expect(getNFTValuationConfig()).toEqual(DEFAULT_NFT_VALUATION_CONFIG);
+  });
+});
+
+describe("parseNFTValuation", () => {
+  it("replaces an unknown stored strategy with the default", () => {
+    expect(parseNFTValuation("floorAsk", true)).toEqual({
+      strategy: "floorAsk",
+      erc1155Discount: true,
+    });
+    expect(parseNFTValuation("unknown", false).strategy).toBe("floorSale7d");
+  });
+});
@@ -0,0 +1,188 @@
+import { z } from "zod";
+import { MagicEdenCollection, NFTValuationStrategy } from "@/types";
+
+export const NFT_VALUATION_STRATEGIES = [
+  "floorSale1d",
+  "floorSale7d",
+  "floorSale30d",
+  "floorAsk",
+  "topBid",
+  "volumeWeighted",
+] as const satisfies readonly NFTValuationStrategy[];
+
+// Short descriptions of each strategy for display
+export const NFT_VALUATION_LABELS: Record<NFTValuationStrategy, string> = {
+  floorSale1d: "1-day floor sale",
+  floorSale7d: "7-day floor sale",
+  floorSale30d: "30-day floor sale",
+  floorAsk: "floor listing",
+  topBid: "top bid",
+  volumeWeighted: "volume-weighted floor sales",
+};
+
+// ERC-1155 units counted at full price before the rarity discount applies
+export const ERC1155_FULL_PRICE_UNITS = 10;
+
+/**
+ * How NFT holdings are priced
+ */
+export interface NFTValuationConfig {
+  strategy: NFTValuationStrategy;
+  /** Discount large ERC-1155 holdings by the share of supply held */
+  erc1155Discount: boolean;
+}
+
+export const DEFAULT_NFT_VALUATION_CONFIG: NFTValuationConfig = {
+  strategy: "floorSale7d",
+  erc1155Discount: false,
+};
+
+// Zod schema for the valuation settings in the environment
+const nftValuationEnvSchema = z.object({
+  strategy: z
+    .enum(NFT_VALUATION_STRATEGIES)
+    .default(DEFAULT_NFT_VALUATION_CONFIG.strategy),
+  erc1155Discount: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) =>
+      value === undefined
+        ? DEFAULT_NFT_VALUATION_CONFIG.erc1155Discount
+        : value === "true"
+    ),
+});
+
+/**
+ * Get the configured NFT valuation. NFT_VALUATION_STRATEGY picks the price
+ * (default "floorSale7d") and NFT_ERC1155_DISCOUNT=true turns on the
+ * ERC-1155 rarity discount. Invalid settings fall back to the default.
+ * @returns Valuation config
+ */
+export function getNFTValuationConfig(): NFTValuationConfig {
+  const parsed = nftValuationEnvSchema.safeParse({
+    strategy: process.env.NFT_VALUATION_STRATEGY || undefined,
+    erc1155Discount: process.env.NFT_ERC1155_DISCOUNT || undefined,
+  });
+
+  if (!parsed.success) {
+    console.warn(
+      "Invalid NFT valuation settings - using the default:",
+      parsed.error.issues.map((issue) => issue.message)
+    );
+    return DEFAULT_NFT_VALUATION_CONFIG;
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Parse the valuation stored with a user's nftBagValue
+ * @param strategy - nftValuationStrategy column value
+ * @param erc1155Discount - nftErc1155Discount column value
+ * @returns Valuation config, with the default strategy if it's unknown
+ */
+export function parseNFTValuation(
+  strategy: string,
+  erc1155Discount: boolean
+): NFTValuationConfig {
+  const parsed = z.enum(NFT_VALUATION_STRATEGIES).safeParse(strategy);
+
+  return {
+    strategy: parsed.success
+      ? parsed.data
+      : DEFAULT_NFT_VALUATION_CONFIG.strategy,
+    erc1155Discount,
+  };
+}
+
+/**
+ * Read the native price from a Magic Eden floor ask
+ */
+function getFloorAskPrice(collection: MagicEdenCollection): number {
+  const amount = collection.collection.floorAskPrice?.amount;
+  const price = Number(amount?.native ?? amount?.decimal);
+  return Number.isFinite(price) ? price : 0;
+}
+
+/**
+ * Average the 1, 7 and 30-day floor sales, weighting each by the trading
+ * volume in its window. Windows without a floor sale or volume are skipped.
+ */
+function getVolumeWeightedPrice(collection: MagicEdenCollection): number {
+  const { floorSale, volume } = collection.collection;
+  let weightedTotal = 0;
+  let totalVolume = 0;
+
+  (["1day", "7day", "30day"] as const).forEach((window) => {
+    const price = floorSale?.[window];
+    const windowVolume = volume?.[window] || 0;
+    if (!price || windowVolume <= 0) return;
+
+    weightedTotal += price * windowVolume;
+    totalVolume += windowVolume;
+  });
+
+  return totalVolume > 0 ? weightedTotal / totalVolume : 0;
+}
+
+/**
+ * Get the per-token price of a collection under a valuation strategy
+ * @param collection - Magic Eden collection
+ * @param strategy - Valuation strategy
+ * @returns Price in MON, 0 if the collection has no such price
+ */
+export function getNFTUnitPrice(
+  collection: MagicEdenCollection,
+  strategy: NFTValuationStrategy
+): number {
+  const { floorSale } = collection.collection;
+
+  switch (strategy) {
+    case "floorSale1d":
+      return floorSale?.["1day"] || 0;
+    case "floorSale7d":
+      return floorSale?.["7day"] || 0;
+    case "floorSale30d":
+      return floorSale?.["30day"] || 0;
+    case "floorAsk":
+      return getFloorAskPrice(collection);
+    case "topBid":
+      return collection.collection.topBidValue || 0;
+    case "volumeWeighted":
+      return getVolumeWeightedPrice(collection);
+  }
+}
+
+/**
+ * Value a wallet's holdings in one collection. With the ERC-1155 discount,
+ * units past the first ERC1155_FULL_PRICE_UNITS are discounted by the share
+ * of the collection's supply held, so large stacks of scarce tokens can't
+ * be valued as if each one could sell at the floor.
+ * @param collection - Magic Eden collection
+ * @param unitPrice - Per-token price in MON
+ * @param heldCount - Number of tokens held
+ * @param config - Valuation config
+ * @returns Value in MON
+ */
+export function valueNFTHoldings(
+  collection: MagicEdenCollection,
+  unitPrice: number,
+  heldCount: number,
+  config: NFTValuationConfig
+): number {
+  const isERC1155 = collection.collection.contractKind === "erc1155";
+  if (
+    !config.erc1155Discount ||
+    !isERC1155 ||
+    heldCount <= ERC1155_FULL_PRICE_UNITS
+  ) {
+    return unitPrice * heldCount;
+  }
+
+  const supply = Number(collection.collection.tokenCount) || heldCount;
+  const supplyShare = Math.min(1, heldCount / supply);
+  const discountedUnits =
+    (heldCount - ERC1155_FULL_PRICE_UNITS) * (1 - supplyShare);
+
+  return unitPrice * (ERC1155_FULL_PRICE_UNITS + discountedUnits);
+}
@@ -0,0 +1,3 @@
+// Limits on how many wallets one portfolio can combine
+export const MIN_PORTFOLIO_WALLETS = 2;
+export const MAX_PORTFOLIO_WALLETS = 10;
@@ -0,0 +1,187 @@
+import { PortfolioStats } from "@/types";
+import { prisma } from "@/lib/prisma";
+import {
+  calculateTotalVolumeWei,
+  calculateTransactionMetrics,
+} from "@/lib/metrics";
+import { weiToMON } from "@/lib/wei";
+import {
+  fetchInternalTransactions,
+  fetchTransactions,
+} from "@/lib/chainProviders";
+import { fetchNFTHoldings } from "@/lib/nft";
+import { getNFTValuationConfig } from "@/lib/nftValuation";
+import { getActiveNFTValidationConfig } from "@/lib/nftValidationConfig";
+import { loadNFTCollectionLists } from "@/lib/nftCollectionLists";
+import { loadStoredTransactions, mergeTransactions } from "@/lib/transactions";
+import {
+  loadStoredInternalTransactions,
+  mergeInternalTransactions,
+} from "@/lib/internalTransactions";
+
+/**
+ * Load a wallet's transactions and internal transactions, reusing stored
+ * rows and only fetching blocks after the last sync. Nothing is written back.
+ * @param wallet - Wallet address
+ * @param signal - AbortSignal for request cancellation
+ * @returns Transactions and internal transactions sorted by block number
+ */
+async function loadWalletTransactions(
+  wallet: string,
+  signal?: AbortSignal
+): Promise<{
+  transactions: Record<string, string>[];
+  internalTransactions: Record<string, string>[];
+}> {
+  let storedTransactions: Record<string, string>[] = [];
+  let storedInternalTransactions: Record<string, string>[] = [];
+  let fromBlock = 0;
+  let internalFromBlock = 0;
+
+  try {
+    const syncState = await prisma.user.findUnique({
+      where: { walletAddress: wallet },
+      select: {
+        id: true,
+        lastSyncedBlock: true,
+        lastInternalSyncedBlock: true,
+      },
+    });
+
+    if (syncState && syncState.lastSyncedBlock !== null) {
+      storedTransactions = await loadStoredTransactions(syncState.id);
+      fromBlock = syncState.lastSyncedBlock + 1;
+    }
+
+    if (syncState && syncState.lastInternalSyncedBlock !== null) {
+      storedInternalTransactions = await loadStoredInternalTransactions(
+        syncState.id
+      );
+      internalFromBlock = syncState.lastInternalSyncedBlock + 1;
+    }
+  } catch (dbError) {
+    // Fall back to a full fetch if the stored history can't be read
+    console.error(`Error loading stored transactions for ${wallet}:`, dbError);
+    storedTransactions = [];
+    storedInternalTransactions = [];
+    fromBlock = 0;
+    internalFromBlock = 0;
+  }
+
+  const newTransactions = await fetchTransactions(wallet, signal, fromBlock);
+  const newInternalTransactions = await fetchInternalTransactions(
+    wallet,
+    signal,
+    internalFromBlock
+  );
+
+  return {
+    transactions: mergeTransactions(storedTransactions, newTransactions),
+    internalTransactions: mergeInternalTransactions(
+      storedInternalTransactions,
+      newInternalTransactions
+    ),
+  };
+}
+
+/**
+ * Build combined stats for several wallets. Transactions are merged by
+ * hash, so a transfer between two wallets in the portfolio is counted
+ * once. No User row is created for the portfolio.
+ * @param wallets - Wallet addresses in the portfolio
+ * @param signal - AbortSignal for request cancellation
+ * @returns Combined stats, or null if none of the wallets have transactions
+ */
+export async function getPortfolioStats(
+  wallets: string[],
+  signal?: AbortSignal
+): Promise<PortfolioStats | null> {
+  // Fetch one wallet at a time to stay within Etherscan rate limits
+  let transactions: Record<string, string>[] = [];
+  let internalTransactions: Record<string, string>[] = [];
+  for (const wallet of wallets) {
+    const walletTransactions = await loadWalletTransactions(wallet, signal);
+    transactions = mergeTransactions(
+      transactions,
+      walletTransactions.transactions
+    );
+    internalTransactions = mergeInternalTransactions(
+      internalTransactions,
+      walletTransactions.internalTransactions
+    );
+  }
+
+  if (transactions.length === 0) return null;
+
+  const ownAddresses = new Set(wallets.map((wallet) => wallet.toLowerCase()));
+  const transfersBetweenWallets = transactions.filter(
+    (tx) =>
+      ownAddresses.has((tx.from || "").toLowerCase()) &&
+      ownAddresses.has((tx.to || "").toLowerCase())
+  );
+
+  const nftValuation = getNFTValuationConfig();
+  const nftCollectionLists = await loadNFTCollectionLists();
+  const nftValidation = await getActiveNFTValidationConfig();
+  // Portfolio views are read-only, so suspicious activity isn't stored
+  const nftHoldings = await Promise.all(
+    wallets.map((wallet) =>
+      fetchNFTHoldings(
+        wallet,
+        nftValuation,
+        nftCollectionLists,
+        nftValidation,
+        false
+      )
+    )
+  );
+  const nftBagValue = nftHoldings.reduce(
+    (total, holdings) => total + holdings.totalValue,
+    0
+  );
+  // Wallets missing from nftBagValue because Magic Eden couldn't be read
+  const nftUnavailableWallets = wallets.filter(
+    (_, index) => nftHoldings[index].fetchFailed
+  );
+
+  const metrics = calculateTransactionMetrics(
+    transactions,
+    wallets,
+    internalTransactions
+  );
+
+  // Transfers between the wallets only move value around the portfolio, so
+  // they're left out of the total like they are of sent and received
+  const totalVolumeWei =
+    BigInt(metrics.totalVolumeWei) -
+    calculateTotalVolumeWei(transfersBetweenWallets);
+
+  return {
+    wallets,
+    txCount: metrics.txCount,
+    gasSpentMON: metrics.gasSpentMON,
+    totalVolume: weiToMON(totalVolumeWei),
+    gasSpentWei: metrics.gasSpentWei,
+    totalVolumeWei: totalVolumeWei.toString(),
+    sentVolume: metrics.sentVolume,
+    receivedVolume: metrics.receivedVolume,
+    netVolume: metrics.netVolume,
+    sentVolumeWei: metrics.sentVolumeWei,
+    receivedVolumeWei: metrics.receivedVolumeWei,
+    failedTxCount: metrics.failedTxCount,
+    failedGasSpentMON: metrics.failedGasSpentMON,
+    failedGasSpentWei: metrics.failedGasSpentWei,
+    uniqueCounterparties: metrics.uniqueCounterparties,
+    uniqueContracts: metrics.uniqueContracts,
+    contractsDeployed: metrics.contractsDeployed,
+    nftBagValue,
+    nftUnavailableWallets,
+    nftValuation,
+    nftValidationVersion: nftValidation.version,
+    isDay1User: metrics.isDay1User,
+    longestStreak: metrics.longestStreak,
+    daysActive: metrics.daysActive,
+    transactionHistory: metrics.transactionHistory,
+    internalTransfers: transfersBetweenWallets.length,
+  };
+}
@@ -0,0 +1,130 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { runJob } from "@/lib/jobs";
+import { getUtcDayStart } from "@/lib/utils";
+import { RankChange } from "@/types";
+
+export const RANK_SNAPSHOT_JOB_NAME = "rank-snapshot";
+
+/**
+ * Record every wallet's rank and total score for a UTC day. Re-running for
+ * the same day replaces that day's snapshot.
+ * @param date - Day to snapshot (defaults to today)
+ * @returns Number of wallets snapshotted
+ */
+export async function snapshotRanks(date: Date = new Date()): Promise<number> {
+  return runJob(RANK_SNAPSHOT_JOB_NAME, async () => {
+    const snapshotDate = getUtcDayStart(date);
+
+    // Flagged wallets are hidden from the leaderboard and aren't ranked
+    const users = await prisma.user.findMany({
+      where: { isFlagged: false },
+      select: { id: true, totalScore: true },
+      orderBy: [{ totalScore: "desc" }, { id: "asc" }],
+    });
+
+    // Tied scores share a rank, matching the global position in /api/stats
+    let previousScore: number | null = null;
+    let previousRank = 0;
+    const rows = users.map((user, index) => {
+      const rank =
+        previousScore !== null && user.totalScore === previousScore
+          ? previousRank
+          : index + 1;
+      previousScore = user.totalScore;
+      previousRank = rank;
+
+      return {
+        userId: user.id,
+        date: snapshotDate,
+        rank,
+        totalScore: user.totalScore,
+      };
+    });
+
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.rankSnapshot.deleteMany({ where: { date: snapshotDate } });
+        await tx.rankSnapshot.createMany({ data: rows });
+      },
+      {
+        timeout: 60 * 1000,
+      }
+    );
+
+    console.log(
+      `Snapshotted ranks for ${rows.length} users on ${snapshotDate
+        .toISOString()
+        .slice(0, 10)}`
+    );
+    return rows.length;
+  });
+}
+
+/**
+ * Get the current global rank (by total score) for a set of users
+ * @param userIds - Users to rank
+ * @returns Map of user id to rank; flagged wallets have no rank
+ */
+export async function getCurrentRanks(
+  userIds: string[]
+): Promise<Map<string, number>> {
+  if (userIds.length === 0) return new Map();
+
+  const rows = await prisma.$queryRaw<{ id: string; rank: bigint }[]>`
+    SELECT "id", "rank" FROM (
+      SELECT "id", RANK() OVER (ORDER BY "totalScore" DESC) AS "rank"
+      FROM "users"
+      WHERE "isFlagged" = false
+    ) AS ranked
+    WHERE "id" IN (${Prisma.join(userIds)})
+  `;
+
+  return new Map(rows.map((row) => [row.id, Number(row.rank)]));
+}
+
+/**
+ * Compare current ranks against yesterday's and last week's snapshots
+ * @param currentRanks - Map of user id to current rank
+ * @param now - Reference time (defaults to now)
+ * @returns Map of user id to rank change
+ */
+export async function getRankChanges(
+  currentRanks: Map<string, number>,
+  now: Date = new Date()
+): Promise<Map<string, RankChange>> {
+  const userIds = Array.from(currentRanks.keys());
+  if (userIds.length === 0) return new Map();
+
+  const yesterday = getUtcDayStart(now, -1);
+  const lastWeek = getUtcDayStart(now, -7);
+
+  const snapshots = await prisma.rankSnapshot.findMany({
+    where: {
+      userId: { in: userIds },
+      date: { in: [yesterday, lastWeek] },
+    },
+    select: { userId: true, date: true, rank: true },
+  });
+
+  const changes = new Map<string, RankChange>();
+  userIds.forEach((userId) =>
+    changes.set(userId, { day: null, week: null })
+  );
+
+  snapshots.forEach((snapshot) => {
+    const currentRank = currentRanks.get(snapshot.userId);
+    const change = changes.get(snapshot.userId);
+    if (currentRank === undefined || !change) return;
+
+    // Moving from #10 to #7 is an improvement of +3
+    const delta = snapshot.rank - currentRank;
+    if (snapshot.date.getTime() === yesterday.getTime()) {
+      change.day = delta;
+    } else {
+      change.week = delta;
+    }
+  });
+
+  return changes;
+}
@@ -0,0 +1,106 @@
+import { JobRun } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { calculatePopulationScores } from "@/lib/scoring";
+import { getActiveScoringConfig } from "@/lib/scoringConfig";
+import { runJob } from "@/lib/jobs";
+import { loadContractLabels } from "@/lib/contractLabels";
+import { parseRiskReasons, reassessFundingCluster } from "@/lib/sybil";
+
+export const RESCORE_JOB_NAME = "rescore-leaderboard";
+
+const DEFAULT_BATCH_SIZE = 500;
+
+/**
+ * Recompute every user's component scores and total score against the
+ * current population with the active scoring version, writing the results
+ * back in batches. Funding clusters grow as new wallets are looked up, so
+ * every wallet's farming risk is re-assessed against the current cluster
+ * sizes too.
+ * @param batchSize - Number of users updated per database transaction
+ * @param claimedRun - Run already claimed with claimJobRun
+ * @returns Number of users rescored
+ */
+export async function rescoreAllUsers(
+  batchSize: number = DEFAULT_BATCH_SIZE,
+  claimedRun?: JobRun
+): Promise<number> {
+  return runJob(
+    RESCORE_JOB_NAME,
+    async (reportProgress) => {
+      // Percentiles need the whole population, so load every user's metrics once
+      const users = await prisma.user.findMany({
+        select: {
+          id: true,
+          txCount: true,
+          gasSpentMON: true,
+          totalVolume: true,
+          sentVolume: true,
+          nftBagValue: true,
+          isDay1User: true,
+          longestStreak: true,
+          daysActive: true,
+          uniqueTokens: true,
+          distinctProtocols: true,
+          uniqueCounterparties: true,
+          uniqueContracts: true,
+          contractsDeployed: true,
+          fundingSource: true,
+          riskReasons: true,
+        },
+        orderBy: { id: "asc" },
+      });
+
+      const scoringConfig = await getActiveScoringConfig();
+      const scores = calculatePopulationScores(users, scoringConfig);
+
+      // Labelled contracts fund many real users, so they don't form a cluster
+      const contractLabels = await loadContractLabels();
+      const clusterSizes = new Map<string, number>();
+      users.forEach(({ fundingSource }) => {
+        if (fundingSource && !contractLabels.has(fundingSource)) {
+          clusterSizes.set(
+            fundingSource,
+            (clusterSizes.get(fundingSource) || 0) + 1
+          );
+        }
+      });
+
+      console.log(
+        `Rescoring ${users.length} users with scoring version ${scoringConfig.version}`
+      );
+
+      let processed = 0;
+      for (let start = 0; start < users.length; start += batchSize) {
+        const batch = users.slice(start, start + batchSize);
+
+        await prisma.$transaction(
+          batch.map((user, index) => {
+            const { riskScore, reasons, isFlagged } = reassessFundingCluster(
+              parseRiskReasons(user.riskReasons),
+              clusterSizes.get(user.fundingSource || "") || 0
+            );
+
+            return prisma.user.update({
+              where: { id: user.id },
+              data: {
+                ...scores[start + index],
+                scoringVersion: scoringConfig.version,
+                riskScore,
+                // Copy into plain objects so the reasons fit Prisma's JSON input type
+                riskReasons: reasons.map((reason) => ({ ...reason })),
+                isFlagged,
+              },
+            });
+          })
+        );
+
+        processed += batch.length;
+        await reportProgress(processed);
+        console.log(`Rescored ${processed}/${users.length} users`);
+      }
+
+      return processed;
+    },
+    claimedRun
+  );
+}
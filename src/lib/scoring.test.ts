@@ -0,0 +1,253 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_SCORING_CONFIG,
+  UserMetrics,
+  calculateComponentScores,
+  calculateDaysActive,
+  calculatePopulationScores,
+  getScoreBreakdown,
+  normalizeToPercentile,
+} from "@/lib/scoring";
+
+const metrics = (overrides: Partial<UserMetrics> = {}): UserMetrics => ({
+  txCount: 10,
+  gasSpentMON: 1,
+  totalVolume: 100,
+  nftBagValue: 0,
+  isDay1User: false,
+  longestStreak: 1,
+  daysActive: 1,
+  ...overrides,
+});
+
+describe("normalizeToPercentile", () => {
+  it("returns 0 for an empty population", () => {
+    expect(normalizeToPercentile(5, [])).toBe(0);
+  });
+
+  it("gives the only user a perfect score", () => {
+    expect(normalizeToPercentile(0, [0])).toBe(100);
+    expect(normalizeToPercentile(42, [42], true)).toBe(100);
+  });
+
+  it("ranks by the share of strictly lower values", () => {
+    const values = [10, 20, 30, 40];
+    expect(normalizeToPercentile(10, values)).toBe(0);
+    expect(normalizeToPercentile(20, values)).toBe(25);
+    expect(normalizeToPercentile(40, values)).toBe(75);
+  });
+
+  it("gives tied values the same percentile", () => {
+    const values = [1, 5, 5, 5, 9];
+    const tied = normalizeToPercentile(5, values);
+
+    expect(tied).toBe(20);
+    expect(normalizeToPercentile(5, [...values].reverse())).toBe(tied);
+  });
+
+  it("scores everyone 0 when the whole population is tied", () => {
+    expect(normalizeToPercentile(3, [3, 3, 3])).toBe(0);
+  });
+
+  it("returns 0 for a value above the whole population", () => {
+    expect(normalizeToPercentile(100, [1, 2, 3])).toBe(0);
+  });
+
+  it("keeps the ordering under the log transform", () => {
+    const values = [0, 1, 10, 1000, 1e6];
+    expect(normalizeToPercentile(1000, values, true)).toBe(
+      normalizeToPercentile(1000, values)
+    );
+  });
+
+  it("rounds to two decimal places", () => {
+    expect(normalizeToPercentile(2, [1, 2, 3])).toBe(33.33);
+  });
+});
+
+describe("calculateDaysActive", () => {
+  it("counts only days with transactions", () => {
+    expect(
+      calculateDaysActive([
+        { date: "2025-03-01", transactions: 2, volume: 0, gasSpent: 0 },
+        { date: "2025-03-02", transactions: 0, volume: 0, gasSpent: 0 },
+        { date: "2025-03-03", transactions: 1, volume: 0, gasSpent: 0 },
+      ])
+    ).toBe(2);
+  });
+
+  it("returns 0 without history", () => {
+    expect(calculateDaysActive([])).toBe(0);
+  });
+});
+
+describe("calculateComponentScores", () => {
+  it("gives a single-user population full marks except the Day 1 bonus", () => {
+    const user = metrics();
+    const scores = calculateComponentScores(user, [user]);
+
+    expect(scores.volumeScore).toBe(100);
+    expect(scores.gasScore).toBe(100);
+    expect(scores.transactionScore).toBe(100);
+    expect(scores.nftScore).toBe(100);
+    expect(scores.daysActiveScore).toBe(100);
+    expect(scores.streakScore).toBe(100);
+    expect(scores.day1BonusScore).toBe(0);
+    expect(scores.totalScore).toBe(95);
+  });
+
+  it("adds the Day 1 bonus", () => {
+    const user = metrics({ isDay1User: true });
+    const scores = calculateComponentScores(user, [user]);
+
+    expect(scores.day1BonusScore).toBe(100);
+    expect(scores.totalScore).toBe(100);
+  });
+
+  it("weights components using the given config", () => {
+    const low = metrics({ txCount: 1 });
+    const high = metrics({ txCount: 50 });
+    const config = {
+      ...DEFAULT_SCORING_CONFIG,
+      weights: {
+        volume: 0,
+        gas: 0,
+        transactions: 1,
+        nft: 0,
+        daysActive: 0,
+        streak: 0,
+        day1Bonus: 0,
+        tokens: 0,
+        protocols: 0,
+        counterparties: 0,
+        contracts: 0,
+        deployments: 0,
+      },
+    };
+
+    expect(calculateComponentScores(high, [low, high], config).totalScore).toBe(
+      50
+    );
+    expect(calculateComponentScores(low, [low, high], config).totalScore).toBe(
+      0
+    );
+  });
+
+  it("ranks outgoing volume only when the config asks for it", () => {
+    const sender = metrics({ totalVolume: 10, sentVolume: 10 });
+    const receiver = metrics({ totalVolume: 50, sentVolume: 0 });
+    const config = {
+      ...DEFAULT_SCORING_CONFIG,
+      volumeSource: "sent" as const,
+    };
+
+    expect(
+      calculateComponentScores(sender, [sender, receiver]).volumeScore
+    ).toBe(0);
+    expect(
+      calculateComponentScores(sender, [sender, receiver], config).volumeScore
+    ).toBe(50);
+    expect(calculatePopulationScores([sender, receiver], config)).toEqual([
+      calculateComponentScores(sender, [sender, receiver], config),
+      calculateComponentScores(receiver, [sender, receiver], config),
+    ]);
+  });
+});
+
+describe("token scoring component", () => {
+  const collector = metrics({ uniqueTokens: 12 });
+  const holder = metrics({ uniqueTokens: 1 });
+
+  it("doesn't affect the total with the default weights", () => {
+    const scores = calculateComponentScores(collector, [collector, holder]);
+
+    expect(scores.tokenScore).toBe(50);
+    expect(scores.totalScore).toBe(
+      calculateComponentScores(metrics(), [metrics(), metrics()]).totalScore
+    );
+  });
+
+  it("counts toward the total when it has a weight", () => {
+    const config = {
+      ...DEFAULT_SCORING_CONFIG,
+      weights: {
+        ...DEFAULT_SCORING_CONFIG.weights,
+        nft: 0.1,
+        tokens: 0.1,
+      },
+    };
+
+    expect(
+      calculateComponentScores(collector, [collector, holder], config)
+        .totalScore
+    ).toBeGreaterThan(
+      calculateComponentScores(holder, [collector, holder], config).totalScore
+    );
+  });
+
+  it("is only listed in the breakdown when weighted", () => {
+    const scores = calculateComponentScores(collector, [collector]);
+    const labels = (weights = DEFAULT_SCORING_CONFIG.weights) =>
+      getScoreBreakdown(scores, weights).map((item) => item.label);
+
+    expect(labels()).not.toContain("Tokens");
+    expect(
+      labels({ ...DEFAULT_SCORING_CONFIG.weights, nft: 0.1, tokens: 0.1 })
+    ).toContain("Tokens");
+  });
+});
+
+describe("protocol scoring component", () => {
+  it("ranks distinct protocols but stays out of the default total", () => {
+    const explorer = metrics({ distinctProtocols: 6 });
+    const regular = metrics({ distinctProtocols: 1 });
+    const scores = calculateComponentScores(explorer, [explorer, regular]);
+    const weights = {
+      ...DEFAULT_SCORING_CONFIG.weights,
+      nft: 0.1,
+      protocols: 0.1,
+    };
+
+    expect(scores.protocolScore).toBe(50);
+    expect(scores.totalScore).toBe(
+      calculateComponentScores(metrics(), [metrics(), metrics()]).totalScore
+    );
+    expect(
+      getScoreBreakdown(scores, weights).map((item) => item.label)
+    ).toContain("Protocols");
+  });
+});
+
+describe("calculatePopulationScores", () => {
+  it("matches calculateComponentScores for every user, including ties", () => {
+    const population = [
+      metrics({ txCount: 5, totalVolume: 0 }),
+      metrics({ txCount: 5, totalVolume: 10, isDay1User: true }),
+      metrics({ txCount: 20, nftBagValue: 300, longestStreak: 4 }),
+      metrics({ txCount: 1, gasSpentMON: 0.2, daysActive: 7 }),
+      metrics({ uniqueTokens: 3 }),
+      metrics({ distinctProtocols: 2 }),
+      metrics({ uniqueCounterparties: 40, uniqueContracts: 9 }),
+      metrics({ contractsDeployed: 1 }),
+    ];
+
+    const populationScores = calculatePopulationScores(population);
+
+    population.forEach((user, index) => {
+      expect(populationScores[index]).toEqual(
+        calculateComponentScores(user, population)
+      );
+    });
+  });
+});
+
+describe("getScoreBreakdown", () => {
+  it("reports each component's weighted contribution", () => {
+    const user = metrics();
+    const breakdown = getScoreBreakdown(calculateComponentScores(user, [user]));
+    const volume = breakdown.find((item) => item.label === "Volume");
+
+    expect(breakdown).toHaveLength(7);
+    expect(volume).toMatchObject({ score: 100, weight: 0.25 });
+  });
+});
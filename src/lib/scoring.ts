@@ -1,13 +1,21 @@
-import { TransactionDataPoint } from "@/types";
+import { RankChange, TransactionDataPoint } from "@/types";
 
 export interface UserMetrics {
   txCount: number;
   gasSpentMON: number;
   totalVolume: number;
+  sentVolume?: number;
+  receivedVolume?: number;
+  netVolume?: number;
   nftBagValue: number;
   isDay1User: boolean;
   longestStreak: number;
   daysActive: number;
+  uniqueTokens?: number;
+  distinctProtocols?: number;
+  uniqueCounterparties?: number;
+  uniqueContracts?: number;
+  contractsDeployed?: number;
   transactionHistory?: TransactionDataPoint[];
 }
 
@@ -19,6 +27,11 @@ export interface UserScore {
   daysActiveScore: number;
   streakScore: number;
   day1BonusScore: number;
+  tokenScore: number;
+  protocolScore: number;
+  counterpartyScore: number;
+  contractScore: number;
+  deploymentScore: number;
   totalScore: number;
 }
 
@@ -28,18 +41,110 @@ export interface LeaderboardEntry {
   totalScore: number;
   metrics: UserMetrics;
   scores: UserScore;
+  scoringVersion?: number | null; // Scoring version that produced the scores
+  scoreWeights?: ScoringWeights; // Weights of that scoring version
+  rank?: number | null; // Global rank by total score
+  rankChange?: RankChange; // Movement vs. yesterday and 7 days ago
 }
 
-// Weight distribution for scoring
-const WEIGHTS = {
-  volume: 0.25, // 25% - High weight for economic activity
-  gas: 0.2, // 20% - Commitment and activity level
-  transactions: 0.15, // 15% - Consistent usage
-  nft: 0.2, // 20% - Investment and taste
-  daysActive: 0.1, // 10% - Consistency over time
-  streak: 0.05, // 5% - Sustained engagement
-  day1Bonus: 0.05, // 5% - Early adoption bonus
-} as const;
+/**
+ * Weight of each component in the total score (should sum to 1)
+ */
+export interface ScoringWeights {
+  volume: number;
+  gas: number;
+  transactions: number;
+  nft: number;
+  daysActive: number;
+  streak: number;
+  day1Bonus: number;
+  /** Optional ERC-20 component, ranking unique tokens; 0 disables it */
+  tokens: number;
+  /** Optional component ranking distinct labelled protocols; 0 disables it */
+  protocols: number;
+  /** Optional breadth components; 0 disables them */
+  counterparties: number;
+  contracts: number;
+  deployments: number;
+}
+
+/**
+ * Whether each percentile metric is log-transformed before ranking
+ */
+export interface ScoringLogTransforms {
+  volume: boolean;
+  gas: boolean;
+  transactions: boolean;
+  nft: boolean;
+  daysActive: boolean;
+  streak: boolean;
+  tokens: boolean;
+  protocols: boolean;
+  counterparties: boolean;
+  contracts: boolean;
+  deployments: boolean;
+}
+
+/**
+ * Volume ranked by the volume score: everything the wallet moved, or only
+ * what it sent out
+ */
+export type VolumeSource = "total" | "sent";
+
+/**
+ * A versioned scoring formula
+ */
+export interface ScoringConfig {
+  version: number;
+  weights: ScoringWeights;
+  logTransforms: ScoringLogTransforms;
+  volumeSource: VolumeSource;
+}
+
+// Scoring formula used when no version is stored in the database
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  version: 1,
+  weights: {
+    volume: 0.25, // 25% - High weight for economic activity
+    gas: 0.2, // 20% - Commitment and activity level
+    transactions: 0.15, // 15% - Consistent usage
+    nft: 0.2, // 20% - Investment and taste
+    daysActive: 0.1, // 10% - Consistency over time
+    streak: 0.05, // 5% - Sustained engagement
+    day1Bonus: 0.05, // 5% - Early adoption bonus
+    tokens: 0, // Off by default
+    protocols: 0, // Off by default
+    counterparties: 0, // Off by default
+    contracts: 0, // Off by default
+    deployments: 0, // Off by default
+  },
+  logTransforms: {
+    volume: true, // Prevent whale dominance
+    gas: true,
+    transactions: false,
+    nft: true,
+    daysActive: false,
+    streak: false,
+    tokens: true,
+    protocols: false,
+    counterparties: true,
+    contracts: true,
+    deployments: false,
+  },
+  volumeSource: "total",
+};
+
+/**
+ * Get the volume a user is ranked on under a scoring config
+ */
+function getScoredVolume(
+  userMetrics: UserMetrics,
+  volumeSource: VolumeSource
+): number {
+  return volumeSource === "sent"
+    ? userMetrics.sentVolume ?? 0
+    : userMetrics.totalVolume;
+}
 
 /**
  * Calculate days active from transaction history
@@ -87,64 +192,155 @@ export function normalizeToPercentile(
   return Math.round(percentile * 100) / 100; // Round to 2 decimal places
 }
 
+/**
+ * Build a percentile lookup for a whole population, sorting the values once.
+ * Returns the same results as normalizeToPercentile for every value.
+ */
+function createPercentileRanker(
+  allValues: number[],
+  useLogTransform: boolean = false
+): (value: number) => number {
+  const transform = (v: number) => (useLogTransform ? Math.log(1 + v) : v);
+  const sortedValues = allValues.map(transform).sort((a, b) => a - b);
+
+  return (value: number) => {
+    if (sortedValues.length === 0) return 0;
+    if (sortedValues.length === 1) return 100;
+
+    // Binary search for the first value >= the target
+    const target = transform(value);
+    let low = 0;
+    let high = sortedValues.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (sortedValues[mid] < target) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    const percentile =
+      low === sortedValues.length ? 0 : (low / sortedValues.length) * 100;
+
+    return Math.round(percentile * 100) / 100; // Round to 2 decimal places
+  };
+}
+
+/**
+ * Combine component scores into the weighted total score
+ */
+function calculateWeightedTotal(
+  scores: Omit<UserScore, "totalScore">,
+  weights: ScoringWeights
+): number {
+  const totalScore =
+    scores.volumeScore * weights.volume +
+    scores.gasScore * weights.gas +
+    scores.transactionScore * weights.transactions +
+    scores.nftScore * weights.nft +
+    scores.daysActiveScore * weights.daysActive +
+    scores.streakScore * weights.streak +
+    scores.day1BonusScore * weights.day1Bonus +
+    scores.tokenScore * weights.tokens +
+    scores.protocolScore * weights.protocols +
+    scores.counterpartyScore * weights.counterparties +
+    scores.contractScore * weights.contracts +
+    scores.deploymentScore * weights.deployments;
+
+  return Math.round(totalScore * 100) / 100; // Round to 2 decimal places
+}
+
 /**
  * Calculate individual component scores
  */
 export function calculateComponentScores(
   userMetrics: UserMetrics,
-  allUsersMetrics: UserMetrics[]
+  allUsersMetrics: UserMetrics[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
 ): UserScore {
+  const { weights, logTransforms, volumeSource } = config;
+
   // Extract all values for normalization
-  const allVolumes = allUsersMetrics.map((u) => u.totalVolume);
+  const allVolumes = allUsersMetrics.map((u) =>
+    getScoredVolume(u, volumeSource)
+  );
   const allGasSpent = allUsersMetrics.map((u) => u.gasSpentMON);
   const allTxCounts = allUsersMetrics.map((u) => u.txCount);
   const allNftValues = allUsersMetrics.map((u) => u.nftBagValue);
   const allDaysActive = allUsersMetrics.map((u) => u.daysActive);
   const allStreaks = allUsersMetrics.map((u) => u.longestStreak);
+  const allUniqueTokens = allUsersMetrics.map((u) => u.uniqueTokens ?? 0);
+  const allDistinctProtocols = allUsersMetrics.map(
+    (u) => u.distinctProtocols ?? 0
+  );
+  const allCounterparties = allUsersMetrics.map(
+    (u) => u.uniqueCounterparties ?? 0
+  );
+  const allContracts = allUsersMetrics.map((u) => u.uniqueContracts ?? 0);
+  const allDeployments = allUsersMetrics.map((u) => u.contractsDeployed ?? 0);
 
   // Calculate normalized scores
   const volumeScore = normalizeToPercentile(
-    userMetrics.totalVolume,
+    getScoredVolume(userMetrics, volumeSource),
     allVolumes,
-    true
+    logTransforms.volume
   );
   const gasScore = normalizeToPercentile(
     userMetrics.gasSpentMON,
     allGasSpent,
-    true
+    logTransforms.gas
   );
   const transactionScore = normalizeToPercentile(
     userMetrics.txCount,
-    allTxCounts
+    allTxCounts,
+    logTransforms.transactions
   );
   const nftScore = normalizeToPercentile(
     userMetrics.nftBagValue,
     allNftValues,
-    true
+    logTransforms.nft
   );
   const daysActiveScore = normalizeToPercentile(
     userMetrics.daysActive,
-    allDaysActive
+    allDaysActive,
+    logTransforms.daysActive
   );
   const streakScore = normalizeToPercentile(
     userMetrics.longestStreak,
-    allStreaks
+    allStreaks,
+    logTransforms.streak
+  );
+  const tokenScore = normalizeToPercentile(
+    userMetrics.uniqueTokens ?? 0,
+    allUniqueTokens,
+    logTransforms.tokens
+  );
+  const protocolScore = normalizeToPercentile(
+    userMetrics.distinctProtocols ?? 0,
+    allDistinctProtocols,
+    logTransforms.protocols
+  );
+  const counterpartyScore = normalizeToPercentile(
+    userMetrics.uniqueCounterparties ?? 0,
+    allCounterparties,
+    logTransforms.counterparties
+  );
+  const contractScore = normalizeToPercentile(
+    userMetrics.uniqueContracts ?? 0,
+    allContracts,
+    logTransforms.contracts
+  );
+  const deploymentScore = normalizeToPercentile(
+    userMetrics.contractsDeployed ?? 0,
+    allDeployments,
+    logTransforms.deployments
   );
 
   // Day 1 bonus is binary (100 if day 1, 0 if not)
   const day1BonusScore = userMetrics.isDay1User ? 100 : 0;
 
-  // Calculate weighted total score
-  const totalScore =
-    volumeScore * WEIGHTS.volume +
-    gasScore * WEIGHTS.gas +
-    transactionScore * WEIGHTS.transactions +
-    nftScore * WEIGHTS.nft +
-    daysActiveScore * WEIGHTS.daysActive +
-    streakScore * WEIGHTS.streak +
-    day1BonusScore * WEIGHTS.day1Bonus;
-
-  return {
+  const componentScores = {
     volumeScore,
     gasScore,
     transactionScore,
@@ -152,8 +348,98 @@ export function calculateComponentScores(
     daysActiveScore,
     streakScore,
     day1BonusScore,
-    totalScore: Math.round(totalScore * 100) / 100, // Round to 2 decimal places
+    tokenScore,
+    protocolScore,
+    counterpartyScore,
+    contractScore,
+    deploymentScore,
   };
+
+  return {
+    ...componentScores,
+    totalScore: calculateWeightedTotal(componentScores, weights),
+  };
+}
+
+/**
+ * Calculate component scores for every user in a population at once.
+ * Equivalent to calling calculateComponentScores for each user, but sorts
+ * each metric only once so it scales to the full leaderboard.
+ */
+export function calculatePopulationScores(
+  allUsersMetrics: UserMetrics[],
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): UserScore[] {
+  const { weights, logTransforms, volumeSource } = config;
+
+  const volumeRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => getScoredVolume(u, volumeSource)),
+    logTransforms.volume
+  );
+  const gasRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.gasSpentMON),
+    logTransforms.gas
+  );
+  const transactionRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.txCount),
+    logTransforms.transactions
+  );
+  const nftRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.nftBagValue),
+    logTransforms.nft
+  );
+  const daysActiveRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.daysActive),
+    logTransforms.daysActive
+  );
+  const streakRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.longestStreak),
+    logTransforms.streak
+  );
+  const tokenRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.uniqueTokens ?? 0),
+    logTransforms.tokens
+  );
+  const protocolRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.distinctProtocols ?? 0),
+    logTransforms.protocols
+  );
+  const counterpartyRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.uniqueCounterparties ?? 0),
+    logTransforms.counterparties
+  );
+  const contractRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.uniqueContracts ?? 0),
+    logTransforms.contracts
+  );
+  const deploymentRanker = createPercentileRanker(
+    allUsersMetrics.map((u) => u.contractsDeployed ?? 0),
+    logTransforms.deployments
+  );
+
+  return allUsersMetrics.map((userMetrics) => {
+    const componentScores = {
+      volumeScore: volumeRanker(getScoredVolume(userMetrics, volumeSource)),
+      gasScore: gasRanker(userMetrics.gasSpentMON),
+      transactionScore: transactionRanker(userMetrics.txCount),
+      nftScore: nftRanker(userMetrics.nftBagValue),
+      daysActiveScore: daysActiveRanker(userMetrics.daysActive),
+      streakScore: streakRanker(userMetrics.longestStreak),
+      day1BonusScore: userMetrics.isDay1User ? 100 : 0,
+      tokenScore: tokenRanker(userMetrics.uniqueTokens ?? 0),
+      protocolScore: protocolRanker(userMetrics.distinctProtocols ?? 0),
+      counterpartyScore: counterpartyRanker(
+        userMetrics.uniqueCounterparties ?? 0
+      ),
+      contractScore: contractRanker(userMetrics.uniqueContracts ?? 0),
+      deploymentScore: deploymentRanker(userMetrics.contractsDeployed ?? 0),
+    };
+
+    return {
+      ...componentScores,
+      totalScore: calculateWeightedTotal(componentScores, weights),
+    };
+  });
 }
 
 /**
@@ -194,27 +480,72 @@ export function formatWalletAddress(address: string): string {
 
 /**
  * Get score breakdown for display
+ * @param scores - User's component scores
+ * @param weights - Weights of the scoring version that produced the scores
  */
-export function getScoreBreakdown(scores: UserScore) {
-  return [
-    { label: "Volume", score: scores.volumeScore, weight: WEIGHTS.volume },
-    { label: "Gas Spent", score: scores.gasScore, weight: WEIGHTS.gas },
+export function getScoreBreakdown(
+  scores: UserScore,
+  weights: ScoringWeights = DEFAULT_SCORING_CONFIG.weights
+) {
+  const breakdown = [
+    { label: "Volume", score: scores.volumeScore, weight: weights.volume },
+    { label: "Gas Spent", score: scores.gasScore, weight: weights.gas },
     {
       label: "Transactions",
       score: scores.transactionScore,
-      weight: WEIGHTS.transactions,
+      weight: weights.transactions,
     },
-    { label: "NFT Value", score: scores.nftScore, weight: WEIGHTS.nft },
+    { label: "NFT Value", score: scores.nftScore, weight: weights.nft },
     {
       label: "Days Active",
       score: scores.daysActiveScore,
-      weight: WEIGHTS.daysActive,
+      weight: weights.daysActive,
     },
-    { label: "Streak", score: scores.streakScore, weight: WEIGHTS.streak },
+    { label: "Streak", score: scores.streakScore, weight: weights.streak },
     {
       label: "Day 1 Bonus",
       score: scores.day1BonusScore,
-      weight: WEIGHTS.day1Bonus,
+      weight: weights.day1Bonus,
     },
   ];
+
+  // The token, protocol and breadth components are optional, so only show
+  // them when they count
+  if (weights.tokens > 0) {
+    breakdown.push({
+      label: "Tokens",
+      score: scores.tokenScore,
+      weight: weights.tokens,
+    });
+  }
+  if (weights.protocols > 0) {
+    breakdown.push({
+      label: "Protocols",
+      score: scores.protocolScore,
+      weight: weights.protocols,
+    });
+  }
+  if (weights.counterparties > 0) {
+    breakdown.push({
+      label: "Counterparties",
+      score: scores.counterpartyScore,
+      weight: weights.counterparties,
+    });
+  }
+  if (weights.contracts > 0) {
+    breakdown.push({
+      label: "Contracts",
+      score: scores.contractScore,
+      weight: weights.contracts,
+    });
+  }
+  if (weights.deployments > 0) {
+    breakdown.push({
+      label: "Deployments",
+      score: scores.deploymentScore,
+      weight: weights.deployments,
+    });
+  }
+
+  return breakdown;
 }
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { ScoringConfig as ScoringConfigRow } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+import { DEFAULT_SCORING_CONFIG, ScoringConfig } from "@/lib/scoring";
+
+// Zod schema for component weights - each in [0, 1], summing to 1
+export const scoringWeightsSchema = z
+  .object({
+    volume: z.number().min(0).max(1),
+    gas: z.number().min(0).max(1),
+    transactions: z.number().min(0).max(1),
+    nft: z.number().min(0).max(1),
+    daysActive: z.number().min(0).max(1),
+    streak: z.number().min(0).max(1),
+    day1Bonus: z.number().min(0).max(1),
+    // Optional, so versions stored before they existed still parse
+    tokens: z.number().min(0).max(1).default(0),
+    protocols: z.number().min(0).max(1).default(0),
+    counterparties: z.number().min(0).max(1).default(0),
+    contracts: z.number().min(0).max(1).default(0),
+    deployments: z.number().min(0).max(1).default(0),
+  })
+  .refine(
+    (weights) =>
+      Math.abs(Object.values(weights).reduce((sum, w) => sum + w, 0) - 1) <
+      0.0001,
+    { message: "Weights must sum to 1" }
+  );
+
+// Zod schema for per-metric log transform flags
+export const scoringLogTransformsSchema = z.object({
+  volume: z.boolean(),
+  gas: z.boolean(),
+  transactions: z.boolean(),
+  nft: z.boolean(),
+  daysActive: z.boolean(),
+  streak: z.boolean(),
+  tokens: z.boolean().default(DEFAULT_SCORING_CONFIG.logTransforms.tokens),
+  protocols: z
+    .boolean()
+    .default(DEFAULT_SCORING_CONFIG.logTransforms.protocols),
+  counterparties: z
+    .boolean()
+    .default(DEFAULT_SCORING_CONFIG.logTransforms.counterparties),
+  contracts: z
+    .boolean()
+    .default(DEFAULT_SCORING_CONFIG.logTransforms.contracts),
+  deployments: z
+    .boolean()
+    .default(DEFAULT_SCORING_CONFIG.logTransforms.deployments),
+});
+
+// Zod schema for the volume the volume score ranks
+export const volumeSourceSchema = z.enum(["total", "sent"]);
+
+// Zod schema for creating a new scoring version through the admin API
+export const createScoringConfigSchema = z.object({
+  weights: scoringWeightsSchema,
+  logTransforms: scoringLogTransformsSchema.default(
+    DEFAULT_SCORING_CONFIG.logTransforms
+  ),
+  volumeSource: volumeSourceSchema.default(DEFAULT_SCORING_CONFIG.volumeSource),
+  description: z.string().max(500).optional(),
+  activate: z.boolean().default(false),
+});
+
+export type CreateScoringConfigInput = z.infer<
+  typeof createScoringConfigSchema
+>;
+
+/**
+ * Parse a stored scoring config row, validating its JSON columns
+ * @param row - Scoring config row from the database
+ * @returns Parsed scoring config
+ */
+function parseScoringConfig(row: ScoringConfigRow): ScoringConfig {
+  return {
+    version: row.version,
+    weights: scoringWeightsSchema.parse(row.weights),
+    logTransforms: scoringLogTransformsSchema.parse(row.logTransforms),
+    volumeSource: volumeSourceSchema.parse(row.volumeSource),
+  };
+}
+
+/**
+ * Get the active scoring config, falling back to the built-in defaults
+ * if none is stored or the stored one is invalid
+ * @returns Active scoring config
+ */
+export async function getActiveScoringConfig(): Promise<ScoringConfig> {
+  try {
+    const row = await prisma.scoringConfig.findFirst({
+      where: { isActive: true },
+      orderBy: { version: "desc" },
+    });
+
+    if (!row) {
+      console.warn("No active scoring config found, using defaults");
+      return DEFAULT_SCORING_CONFIG;
+    }
+
+    return parseScoringConfig(row);
+  } catch (error) {
+    console.error("Error loading active scoring config:", error);
+    return DEFAULT_SCORING_CONFIG;
+  }
+}
+
+/**
+ * Get a specific scoring version, falling back to the active one if it
+ * isn't stored (e.g. scores written before versioning existed)
+ * @param version - Scoring version to load
+ * @returns Scoring config for that version
+ */
+export async function getScoringConfig(
+  version: number | null
+): Promise<ScoringConfig> {
+  if (version === null) return getActiveScoringConfig();
+
+  try {
+    const row = await prisma.scoringConfig.findUnique({ where: { version } });
+    return row ? parseScoringConfig(row) : getActiveScoringConfig();
+  } catch (error) {
+    console.error(`Error loading scoring config v${version}:`, error);
+    return getActiveScoringConfig();
+  }
+}
+
+/**
+ * List every stored scoring version, newest first
+ */
+export async function listScoringConfigs() {
+  return prisma.scoringConfig.findMany({
+    orderBy: { version: "desc" },
+  });
+}
+
+/**
+ * Store a new scoring version, optionally making it the active one
+ * @param input - Validated scoring config input
+ * @returns The created scoring config row
+ */
+export async function createScoringConfig(input: CreateScoringConfigInput) {
+  return prisma.$transaction(async (tx) => {
+    const latest = await tx.scoringConfig.findFirst({
+      orderBy: { version: "desc" },
+      select: { version: true },
+    });
+
+    if (input.activate) {
+      await tx.scoringConfig.updateMany({
+        where: { isActive: true },
+        data: { isActive: false },
+      });
+    }
+
+    return tx.scoringConfig.create({
+      data: {
+        version: (latest?.version ?? 0) + 1,
+        isActive: input.activate,
+        description: input.description,
+        weights: input.weights,
+        logTransforms: input.logTransforms,
+        volumeSource: input.volumeSource,
+      },
+    });
+  });
+}
+
+/**
+ * Make an existing scoring version the active one
+ * @param version - Version to activate
+ * @returns The activated scoring config row, or null if it doesn't exist
+ */
+export async function activateScoringConfig(version: number) {
+  return prisma.$transaction(async (tx) => {
+    const target = await tx.scoringConfig.findUnique({ where: { version } });
+    if (!target) return null;
+
+    await tx.scoringConfig.updateMany({
+      where: { isActive: true },
+      data: { isActive: false },
+    });
+
+    return tx.scoringConfig.update({
+      where: { version },
+      data: { isActive: true },
+    });
+  });
+}
@@ -0,0 +1,190 @@
+import { z } from "zod";
+import type { Prisma, SuspiciousActivity } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+// Maximum number of events in a CSV export
+export const SUSPICIOUS_ACTIVITY_EXPORT_LIMIT = 10000;
+
+/**
+ * A suspicious event to store for later review
+ */
+export interface SuspiciousActivityInput {
+  walletAddress: string;
+  collection?: string | null;
+  reason: string;
+  details: Record<string, unknown>;
+}
+
+// Zod schema for the admin API's query string filters
+export const suspiciousActivityQuerySchema = z.object({
+  wallet: z.string().trim().min(1).optional(),
+  collection: z.string().trim().min(1).optional(),
+  reason: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(500).default(100),
+});
+
+export type SuspiciousActivityQuery = z.infer<
+  typeof suspiciousActivityQuerySchema
+>;
+
+/**
+ * A wallet's number of stored suspicious events
+ */
+export interface SuspiciousWalletCount {
+  walletAddress: string;
+  eventCount: number;
+  lastSeenAt: Date | null;
+}
+
+/**
+ * Identify an event by what it's about rather than when it was seen, so
+ * repeat lookups of the same wallet don't store the same issue again.
+ * Validation thresholds are versioned, so a new version can raise it anew.
+ */
+function getDedupeKey(event: SuspiciousActivityInput): string {
+  const { configVersion } = event.details;
+
+  return [
+    event.walletAddress.toLowerCase(),
+    event.collection ?? "",
+    event.reason,
+    typeof configVersion === "number" ? configVersion : "",
+  ].join("|");
+}
+
+/**
+ * Store suspicious events, skipping issues already stored for the wallet.
+ * Storage failures are logged, never thrown, so they can't break the lookup
+ * that raised the events.
+ * @param events - Events to store
+ */
+export async function recordSuspiciousActivities(
+  events: SuspiciousActivityInput[]
+): Promise<void> {
+  if (events.length === 0) return;
+
+  try {
+    await prisma.suspiciousActivity.createMany({
+      data: events.map((event) => ({
+        walletAddress: event.walletAddress.toLowerCase(),
+        collection: event.collection ?? null,
+        reason: event.reason,
+        details: event.details as Prisma.InputJsonObject,
+        dedupeKey: getDedupeKey(event),
+      })),
+      skipDuplicates: true,
+    });
+  } catch (error) {
+    console.error("Error recording suspicious activity:", error);
+  }
+}
+
+/**
+ * Build the where clause for a set of filters. Wallets match exactly,
+ * collections and reasons match case-insensitive substrings.
+ */
+function buildWhere(
+  filters: Omit<SuspiciousActivityQuery, "page" | "pageSize">
+): Prisma.SuspiciousActivityWhereInput {
+  return {
+    ...(filters.wallet && { walletAddress: filters.wallet.toLowerCase() }),
+    ...(filters.collection && {
+      collection: { contains: filters.collection, mode: "insensitive" },
+    }),
+    ...(filters.reason && {
+      reason: { contains: filters.reason, mode: "insensitive" },
+    }),
+    ...((filters.from || filters.to) && {
+      createdAt: { gte: filters.from, lte: filters.to },
+    }),
+  };
+}
+
+/**
+ * List suspicious events, newest first
+ * @param query - Filters and pagination
+ * @returns One page of events and the total matching the filters
+ */
+export async function listSuspiciousActivities(
+  query: SuspiciousActivityQuery
+): Promise<{ events: SuspiciousActivity[]; total: number }> {
+  const where = buildWhere(query);
+
+  const [events, total] = await Promise.all([
+    prisma.suspiciousActivity.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip: (query.page - 1) * query.pageSize,
+      take: query.pageSize,
+    }),
+    prisma.suspiciousActivity.count({ where }),
+  ]);
+
+  return { events, total };
+}
+
+/**
+ * Count suspicious events per wallet, most events first
+ * @param query - Filters and pagination
+ * @returns One page of wallet counts
+ */
+export async function countSuspiciousActivitiesByWallet(
+  query: SuspiciousActivityQuery
+): Promise<SuspiciousWalletCount[]> {
+  const groups = await prisma.suspiciousActivity.groupBy({
+    by: ["walletAddress"],
+    where: buildWhere(query),
+    _count: { _all: true },
+    _max: { createdAt: true },
+    orderBy: [{ _count: { walletAddress: "desc" } }, { walletAddress: "asc" }],
+    skip: (query.page - 1) * query.pageSize,
+    take: query.pageSize,
+  });
+
+  return groups.map((group) => ({
+    walletAddress: group.walletAddress,
+    eventCount: group._count._all,
+    lastSeenAt: group._max.createdAt,
+  }));
+}
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function toCsvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Export suspicious events matching the filters as CSV, newest first
+ * @param query - Filters; pagination is ignored
+ * @returns CSV with a header row, capped at the export limit
+ */
+export async function exportSuspiciousActivitiesCsv(
+  query: SuspiciousActivityQuery
+): Promise<string> {
+  const events = await prisma.suspiciousActivity.findMany({
+    where: buildWhere(query),
+    orderBy: { createdAt: "desc" },
+    take: SUSPICIOUS_ACTIVITY_EXPORT_LIMIT,
+  });
+
+  const rows = events.map((event) =>
+    [
+      event.createdAt.toISOString(),
+      event.walletAddress,
+      event.collection ?? "",
+      event.reason,
+      JSON.stringify(event.details),
+    ]
+      .map(toCsvField)
+      .join(",")
+  );
+
+  return ["createdAt,walletAddress,collection,reason,details", ...rows].join(
+    "\n"
+  );
+}
@@ -0,0 +1,186 @@
+import { describe, expect, it } from "vitest";
+import {
+  SYBIL_DETECTION,
+  SYBIL_RISK_POINTS,
+  assessSybilRisk,
+  findFundingSource,
+  parseRiskReasons,
+  reassessFundingCluster,
+} from "@/lib/sybil";
+
+// 2025-02-19T00:00:00Z, the Monad launch
+const LAUNCH = 1739923200;
+const HOUR = 60 * 60;
+const WALLET = "0xa";
+
+const tx = (
+  index: number,
+  overrides: Record<string, string> = {}
+): Record<string, string> => ({
+  hash: `0x${index.toString(16)}`,
+  from: WALLET,
+  to: `0x${(index + 100).toString(16)}`,
+  value: `${index + 1}000000000000000000`,
+  gas: "21000",
+  gasPrice: "1000000000",
+  // Irregular gaps, like a person
+  timeStamp: String(LAUNCH + index * HOUR + ((index * index * 137) % 3000)),
+  blockNumber: String(index + 1),
+  ...overrides,
+});
+
+const many = (
+  count: number,
+  overrides: (index: number) => Record<string, string> = () => ({})
+) => Array.from({ length: count }, (_, index) => tx(index, overrides(index)));
+
+const reasonCodes = (transactions: Record<string, string>[], cluster = 0) =>
+  assessSybilRisk(transactions, WALLET, cluster).reasons.map(
+    (reason) => reason.code
+  );
+
+describe("assessSybilRisk", () => {
+  it("doesn't flag varied activity", () => {
+    expect(assessSybilRisk(many(40), WALLET)).toEqual({
+      riskScore: 0,
+      reasons: [],
+      isFlagged: false,
+    });
+  });
+
+  it("skips pattern checks for wallets with few transactions", () => {
+    const selfTransfers = many(SYBIL_DETECTION.MIN_TRANSACTIONS - 1, () => ({
+      to: WALLET,
+    }));
+
+    expect(reasonCodes(selfTransfers)).toEqual([]);
+  });
+
+  it("detects repetitive self-transfers", () => {
+    const transactions = many(30, (i) => ({
+      to: i % 2 === 0 ? "0xA" : `0x${i}`,
+    }));
+
+    expect(reasonCodes(transactions)).toContain("self_transfers");
+  });
+
+  it("detects transactions sent at fixed intervals", () => {
+    const transactions = many(30, (i) => ({
+      timeStamp: String(LAUNCH + i * 600 + (i % 3)),
+    }));
+
+    expect(reasonCodes(transactions)).toEqual(["fixed_intervals"]);
+  });
+
+  it("detects near-identical transactions", () => {
+    const transactions = many(30, () => ({
+      to: "0xdex",
+      value: "0",
+      methodId: "0x38ed1739",
+    }));
+
+    expect(reasonCodes(transactions)).toEqual(["repeated_pattern"]);
+  });
+
+  it("detects dust-value spam", () => {
+    const transactions = many(30, (i) => ({ value: String(i + 1) }));
+
+    expect(reasonCodes(transactions)).toEqual(["dust_spam"]);
+  });
+
+  it("ignores failed and pre-launch transactions", () => {
+    const transactions = many(30, (i) => ({
+      to: WALLET,
+      ...(i % 2 === 0
+        ? { isError: "1" }
+        : { timeStamp: String(LAUNCH - i * HOUR) }),
+    }));
+
+    expect(reasonCodes(transactions)).toEqual([]);
+  });
+
+  it("adds a funding cluster without flagging on it alone", () => {
+    const assessment = assessSybilRisk(
+      many(40),
+      WALLET,
+      SYBIL_DETECTION.FUNDING_CLUSTER_SIZE
+    );
+
+    expect(assessment.reasons.map((reason) => reason.code)).toEqual([
+      "funding_cluster",
+    ]);
+    expect(assessment.isFlagged).toBe(false);
+  });
+
+  it("flags wallets once the combined score reaches the threshold", () => {
+    const transactions = many(30, (i) => ({
+      to: "0xdex",
+      value: "1",
+      timeStamp: String(LAUNCH + i * 600),
+    }));
+    const assessment = assessSybilRisk(transactions, WALLET);
+
+    expect(assessment.riskScore).toBe(90);
+    expect(assessment.isFlagged).toBe(true);
+  });
+});
+
+describe("reassessFundingCluster", () => {
+  const patternReasons = assessSybilRisk(
+    many(30, () => ({ to: "0xdex", value: "5000000000000000000" })),
+    WALLET
+  ).reasons;
+
+  it("flags a wallet whose cluster has grown since it was assessed", () => {
+    const before = reassessFundingCluster(patternReasons, 1);
+    const after = reassessFundingCluster(
+      before.reasons,
+      SYBIL_DETECTION.FUNDING_CLUSTER_SIZE
+    );
+
+    expect(before.isFlagged).toBe(false);
+    expect(after.reasons.map((reason) => reason.code)).toEqual([
+      "repeated_pattern",
+      "funding_cluster",
+    ]);
+    expect(after.isFlagged).toBe(true);
+  });
+
+  it("replaces the previous cluster reason instead of adding another", () => {
+    const first = reassessFundingCluster([], 12);
+    const second = reassessFundingCluster(first.reasons, 15);
+
+    expect(second.reasons).toHaveLength(1);
+    expect(second.reasons[0].description).toBe(
+      "Funded by the same address as 14 other wallets"
+    );
+    expect(second.riskScore).toBe(SYBIL_RISK_POINTS.funding_cluster);
+  });
+});
+
+describe("findFundingSource", () => {
+  it("returns the sender of the first MON received", () => {
+    expect(
+      findFundingSource(
+        [
+          tx(3, { from: "0xLate", to: WALLET }),
+          tx(2, { from: "0xFaucet", to: WALLET }),
+          tx(1, { from: "0xZero", to: WALLET, value: "0" }),
+          tx(0, { from: "0xFailed", to: WALLET, isError: "1" }),
+        ],
+        WALLET
+      )
+    ).toBe("0xfaucet");
+  });
+
+  it("returns null for a wallet that never received MON", () => {
+    expect(findFundingSource(many(3), WALLET)).toBeNull();
+  });
+});
+
+describe("parseRiskReasons", () => {
+  it("drops malformed stored reasons", () => {
+    expect(parseRiskReasons([{ code: "unknown" }])).toEqual([]);
+    expect(parseRiskReasons(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,243 @@
+import { z } from "zod";
+import { SybilReason, SybilReasonCode } from "@/types";
+import { getLaunchDate } from "@/lib/utils";
+import { isFailedTransaction } from "@/lib/metrics";
+import { toWei } from "@/lib/wei";
+
+// Transaction farming heuristics, tuned to catch scripted wallets
+export const SYBIL_DETECTION = {
+  MIN_TRANSACTIONS: 20, // Pattern checks need a meaningful sample
+  SELF_TRANSFER_RATIO: 0.3, // Share of sent transactions back to itself
+  FIXED_INTERVAL_RATIO: 0.6, // Share of gaps matching the most common gap
+  INTERVAL_TOLERANCE_SECONDS: 10, // Gaps this close count as the same
+  REPEATED_PATTERN_RATIO: 0.7, // Share of identical to/value/method sends
+  DUST_VALUE_WEI: "1000000000000", // 0.000001 MON
+  DUST_RATIO: 0.5, // Share of sent transactions carrying dust
+  FUNDING_CLUSTER_SIZE: 10, // Wallets first funded by the same address
+  FLAG_THRESHOLD: 50, // Risk score at which a wallet is flagged
+} as const;
+
+// Points each heuristic adds to the risk score. A funding cluster alone
+// can't flag a wallet, since faucets and exchanges fund many real users.
+export const SYBIL_RISK_POINTS: Record<SybilReasonCode, number> = {
+  self_transfers: 40,
+  fixed_intervals: 35,
+  repeated_pattern: 30,
+  dust_spam: 25,
+  funding_cluster: 20,
+};
+
+// Zod schema for the reasons stored in the users.riskReasons JSON column
+const sybilReasonsSchema = z.array(
+  z.object({
+    code: z.enum([
+      "self_transfers",
+      "fixed_intervals",
+      "repeated_pattern",
+      "dust_spam",
+      "funding_cluster",
+    ]),
+    description: z.string(),
+    points: z.number(),
+  })
+);
+
+/**
+ * A wallet's farming risk
+ */
+export interface SybilAssessment {
+  riskScore: number;
+  reasons: SybilReason[];
+  isFlagged: boolean;
+}
+
+/**
+ * Get the share of items taken up by the most common key
+ */
+function getLargestShare<T>(items: T[], getKey: (item: T) => string): number {
+  if (items.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  items.forEach((item) => {
+    const key = getKey(item);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  let largest = 0;
+  counts.forEach((count) => {
+    largest = Math.max(largest, count);
+  });
+
+  return largest / items.length;
+}
+
+/**
+ * Format a ratio as a whole percentage for reason descriptions
+ */
+function formatShare(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Find the address that first sent MON to a wallet
+ * @param transactions - Array of transactions, in any order
+ * @param walletAddress - Wallet that was funded
+ * @returns Lowercase funding address, or null if the wallet never received
+ * MON in a normal transaction
+ */
+export function findFundingSource(
+  transactions: Record<string, string>[],
+  walletAddress: string
+): string | null {
+  const wallet = walletAddress.toLowerCase();
+
+  const funding = transactions
+    .filter(
+      (tx) =>
+        (tx.to || "").toLowerCase() === wallet &&
+        (tx.from || "").toLowerCase() !== wallet &&
+        toWei(tx.value) > BigInt(0) &&
+        !isFailedTransaction(tx)
+    )
+    .sort((a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber))[0];
+
+  return funding ? funding.from.toLowerCase() : null;
+}
+
+/**
+ * Score how likely a wallet is to be farming transactions
+ * @param transactions - Array of transactions
+ * @param walletAddress - Wallet being assessed
+ * @param fundingClusterSize - Number of wallets, including this one, first
+ * funded by the same address
+ * @returns Risk score (0-100), the reasons behind it and whether the wallet
+ * is flagged
+ */
+export function assessSybilRisk(
+  transactions: Record<string, string>[],
+  walletAddress: string,
+  fundingClusterSize: number = 0
+): SybilAssessment {
+  const launchDate = getLaunchDate();
+  const wallet = walletAddress.toLowerCase();
+  const reasons: SybilReason[] = [];
+
+  const addReason = (code: SybilReasonCode, description: string) =>
+    reasons.push({ code, description, points: SYBIL_RISK_POINTS[code] });
+
+  // Only successful transactions the wallet sent after launch show farming
+  const sent = transactions
+    .filter(
+      (tx) =>
+        (tx.from || "").toLowerCase() === wallet &&
+        parseInt(tx.timeStamp || "0") >= launchDate &&
+        !isFailedTransaction(tx)
+    )
+    .sort((a, b) => parseInt(a.timeStamp) - parseInt(b.timeStamp));
+
+  if (sent.length >= SYBIL_DETECTION.MIN_TRANSACTIONS) {
+    // Check 1: Repetitive self-transfers
+    const selfTransferShare =
+      sent.filter((tx) => (tx.to || "").toLowerCase() === wallet).length /
+      sent.length;
+    if (selfTransferShare >= SYBIL_DETECTION.SELF_TRANSFER_RATIO) {
+      addReason(
+        "self_transfers",
+        `${formatShare(selfTransferShare)} of sent transactions are self-transfers`
+      );
+    }
+
+    // Check 2: Transactions at fixed intervals
+    const gaps = sent
+      .slice(1)
+      .map(
+        (tx, index) => parseInt(tx.timeStamp) - parseInt(sent[index].timeStamp)
+      );
+    const fixedIntervalShare = getLargestShare(gaps, (gap) =>
+      String(Math.round(gap / SYBIL_DETECTION.INTERVAL_TOLERANCE_SECONDS))
+    );
+    if (fixedIntervalShare >= SYBIL_DETECTION.FIXED_INTERVAL_RATIO) {
+      addReason(
+        "fixed_intervals",
+        `${formatShare(fixedIntervalShare)} of transactions are sent at the same interval`
+      );
+    }
+
+    // Check 3: Near-identical transactions
+    const repeatedShare = getLargestShare(
+      sent,
+      (tx) =>
+        `${(tx.to || "").toLowerCase()}:${tx.value}:${tx.methodId || ""}`
+    );
+    if (repeatedShare >= SYBIL_DETECTION.REPEATED_PATTERN_RATIO) {
+      addReason(
+        "repeated_pattern",
+        `${formatShare(repeatedShare)} of sent transactions are identical`
+      );
+    }
+
+    // Check 4: Dust-value spam
+    const dustValueWei = toWei(SYBIL_DETECTION.DUST_VALUE_WEI);
+    const dustShare =
+      sent.filter((tx) => {
+        const value = toWei(tx.value);
+        return value > BigInt(0) && value < dustValueWei;
+      }).length / sent.length;
+    if (dustShare >= SYBIL_DETECTION.DUST_RATIO) {
+      addReason(
+        "dust_spam",
+        `${formatShare(dustShare)} of sent transactions carry dust amounts`
+      );
+    }
+  }
+
+  // Check 5: Cluster of wallets funded from the same source
+  return reassessFundingCluster(reasons, fundingClusterSize);
+}
+
+/**
+ * Re-assess a wallet against the current size of its funding cluster,
+ * keeping the transaction pattern reasons it was last assessed with
+ * @param reasons - Previously assessed reasons
+ * @param fundingClusterSize - Number of wallets, including this one, first
+ * funded by the same address
+ * @returns Risk score (0-100), the reasons behind it and whether the wallet
+ * is flagged
+ */
+export function reassessFundingCluster(
+  reasons: SybilReason[],
+  fundingClusterSize: number
+): SybilAssessment {
+  const assessed = reasons.filter(
+    (reason) => reason.code !== "funding_cluster"
+  );
+
+  if (fundingClusterSize >= SYBIL_DETECTION.FUNDING_CLUSTER_SIZE) {
+    assessed.push({
+      code: "funding_cluster",
+      description: `Funded by the same address as ${fundingClusterSize - 1} other wallets`,
+      points: SYBIL_RISK_POINTS.funding_cluster,
+    });
+  }
+
+  const riskScore = Math.min(
+    100,
+    assessed.reduce((total, reason) => total + reason.points, 0)
+  );
+
+  return {
+    riskScore,
+    reasons: assessed,
+    isFlagged: riskScore >= SYBIL_DETECTION.FLAG_THRESHOLD,
+  };
+}
+
+/**
+ * Parse stored risk reasons, dropping them if the JSON is malformed
+ * @param value - riskReasons column value
+ * @returns Risk reasons
+ */
+export function parseRiskReasons(value: unknown): SybilReason[] {
+  const parsed = sybilReasonsSchema.safeParse(value);
+  return parsed.success ? parsed.data : [];
+}
@@ -0,0 +1,109 @@
+import type { Prisma, TokenTransfer } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Build a stable id for a token transfer. One transaction can emit several
+ * transfers, so the hash alone isn't unique; providers that don't return
+ * the log index fall back to the transfer's contents.
+ * @param transfer - Token transfer record
+ * @returns Transfer id, unique per wallet
+ */
+export function getTokenTransferId(transfer: Record<string, string>): string {
+  if (transfer.logIndex) {
+    return `${transfer.hash}:${transfer.logIndex}`;
+  }
+
+  return [
+    transfer.hash,
+    (transfer.contractAddress || "").toLowerCase(),
+    (transfer.from || "").toLowerCase(),
+    (transfer.to || "").toLowerCase(),
+    transfer.value || "0",
+  ].join(":");
+}
+
+/**
+ * Convert a stored token transfer row back into a tokentx-shaped record
+ */
+export function toTokenTransferRecord(
+  transfer: TokenTransfer
+): Record<string, string> {
+  return {
+    hash: transfer.hash,
+    logIndex: transfer.logIndex || "",
+    from: transfer.from,
+    to: transfer.to,
+    value: transfer.value,
+    contractAddress: transfer.contractAddress,
+    tokenName: transfer.tokenName,
+    tokenSymbol: transfer.tokenSymbol,
+    tokenDecimal: transfer.tokenDecimal.toString(),
+    timeStamp: transfer.timeStamp.toString(),
+    blockNumber: transfer.blockNumber.toString(),
+  };
+}
+
+/**
+ * Convert a tokentx-shaped record into a row for the token_transfers table
+ */
+export function toTokenTransferRow(
+  userId: string,
+  transfer: Record<string, string>
+): Prisma.TokenTransferCreateManyInput {
+  return {
+    userId,
+    transferId: getTokenTransferId(transfer),
+    hash: transfer.hash,
+    logIndex: transfer.logIndex || null,
+    blockNumber: parseInt(transfer.blockNumber || "0"),
+    timeStamp: parseInt(transfer.timeStamp || "0"),
+    from: transfer.from || "",
+    to: transfer.to || "",
+    value: transfer.value || "0",
+    contractAddress: (transfer.contractAddress || "").toLowerCase(),
+    tokenName: transfer.tokenName || "",
+    tokenSymbol: transfer.tokenSymbol || "",
+    tokenDecimal: parseInt(transfer.tokenDecimal || "0") || 0,
+  };
+}
+
+/**
+ * Load every stored token transfer for a user, oldest first
+ * @param userId - User id to load transfers for
+ * @returns Array of tokentx-shaped transfers
+ */
+export async function loadStoredTokenTransfers(
+  userId: string
+): Promise<Record<string, string>[]> {
+  const rows = await prisma.tokenTransfer.findMany({
+    where: { userId },
+    orderBy: [{ blockNumber: "asc" }, { timeStamp: "asc" }],
+  });
+
+  return rows.map(toTokenTransferRecord);
+}
+
+/**
+ * Merge stored and freshly fetched token transfers, de-duplicating by
+ * transfer id
+ * @param stored - Transfers already in the database
+ * @param fetched - Transfers fetched since the last sync
+ * @returns Combined transfers sorted by block number
+ */
+export function mergeTokenTransfers(
+  stored: Record<string, string>[],
+  fetched: Record<string, string>[]
+): Record<string, string>[] {
+  const byId = new Map<string, Record<string, string>>();
+
+  stored.forEach((transfer) =>
+    byId.set(getTokenTransferId(transfer), transfer)
+  );
+  fetched.forEach((transfer) =>
+    byId.set(getTokenTransferId(transfer), transfer)
+  );
+
+  return Array.from(byId.values()).sort(
+    (a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber)
+  );
+}
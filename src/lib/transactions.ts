@@ -0,0 +1,101 @@
+import type { Prisma, Transaction } from "@prisma/client";
+import { prisma } from "@/lib/prisma";
+
+/**
+ * Convert a stored transaction row back into the Etherscan-shaped record
+ * used by the metric calculations
+ */
+export function toTransactionRecord(tx: Transaction): Record<string, string> {
+  return {
+    hash: tx.hash,
+    from: tx.from,
+    to: tx.to,
+    value: tx.value,
+    gas: tx.gas,
+    gasPrice: tx.gasPrice,
+    gasUsed: tx.gasUsed || "",
+    effectiveGasPrice: tx.effectiveGasPrice || "",
+    isError: tx.isError ? "1" : "0",
+    methodId: tx.methodId || "",
+    contractAddress: tx.contractAddress || "",
+    timeStamp: tx.timeStamp.toString(),
+    blockNumber: tx.blockNumber.toString(),
+  };
+}
+
+/**
+ * Convert an Etherscan-shaped record into a row for the transactions table
+ */
+export function toTransactionRow(
+  userId: string,
+  tx: Record<string, string>
+): Prisma.TransactionCreateManyInput {
+  return {
+    userId,
+    hash: tx.hash,
+    blockNumber: parseInt(tx.blockNumber || "0"),
+    timeStamp: parseInt(tx.timeStamp || "0"),
+    from: tx.from || "",
+    to: tx.to || "",
+    value: tx.value || "0",
+    gas: tx.gas || "0",
+    gasPrice: tx.gasPrice || "0",
+    gasUsed: tx.gasUsed || null,
+    effectiveGasPrice: tx.effectiveGasPrice || null,
+    isError: tx.isError === "1",
+    methodId: tx.methodId || null,
+    contractAddress: tx.contractAddress || null,
+  };
+}
+
+/**
+ * Load every stored transaction for a user, oldest first
+ * @param userId - User id to load transactions for
+ * @returns Array of Etherscan-shaped transactions
+ */
+export async function loadStoredTransactions(
+  userId: string
+): Promise<Record<string, string>[]> {
+  const rows = await prisma.transaction.findMany({
+    where: { userId },
+    orderBy: [{ blockNumber: "asc" }, { timeStamp: "asc" }],
+  });
+
+  return rows.map(toTransactionRecord);
+}
+
+/**
+ * Merge stored and freshly fetched transactions, de-duplicating by hash
+ * @param stored - Transactions already in the database
+ * @param fetched - Transactions fetched since the last sync
+ * @returns Combined transactions sorted by block number
+ */
+export function mergeTransactions(
+  stored: Record<string, string>[],
+  fetched: Record<string, string>[]
+): Record<string, string>[] {
+  const byHash = new Map<string, Record<string, string>>();
+
+  stored.forEach((tx) => byHash.set(tx.hash, tx));
+  fetched.forEach((tx) => byHash.set(tx.hash, tx));
+
+  return Array.from(byHash.values()).sort(
+    (a, b) => parseInt(a.blockNumber) - parseInt(b.blockNumber)
+  );
+}
+
+/**
+ * Get the highest block number in a list of transactions
+ * @param transactions - Array of transactions
+ * @returns Highest block number, or null if there are no transactions
+ */
+export function getLatestBlock(
+  transactions: Record<string, string>[]
+): number | null {
+  if (transactions.length === 0) return null;
+
+  return transactions.reduce(
+    (latest, tx) => Math.max(latest, parseInt(tx.blockNumber || "0")),
+    0
+  );
+}
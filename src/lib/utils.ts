@@ -43,12 +43,20 @@ export function formatMON(amount: number): string {
   return amount.toFixed(6);
 }
 
+/**
+ * Format a MON flow that can be negative, e.g. net volume
+ */
+export function formatSignedMON(amount: number): string {
+  if (amount === 0) return formatMON(0);
+  return (amount > 0 ? "+" : "-") + formatMON(Math.abs(amount));
+}
+
 /**
  * Check if date is Monad launch day (February 19, 2025)
  */
 export function isDay1(date: Date): boolean {
-  const launchDate = new Date("2025-02-19T00:00:00Z");
-  return date.toDateString() === launchDate.toDateString();
+  // Compare UTC calendar days so the server's timezone doesn't matter
+  return date.toISOString().split("T")[0] === "2025-02-19";
 }
 
 /**
@@ -57,3 +65,37 @@ export function isDay1(date: Date): boolean {
 export function getLaunchDate(): number {
   return new Date("2025-02-19T00:00:00Z").getTime() / 1000;
 }
+
+/**
+ * Get the start of the UTC day for a date, optionally shifted by whole days
+ */
+export function getUtcDayStart(date: Date, offsetDays: number = 0): Date {
+  return new Date(
+    Date.UTC(
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate() + offsetDays
+    )
+  );
+}
+
+/**
+ * Parse a comma-separated list of wallet addresses, de-duplicating
+ * case-insensitively
+ * @param value - Raw query string value
+ * @returns Unique addresses in the order given
+ */
+export function parseWalletList(value: string | null): string[] {
+  if (!value) return [];
+
+  const seen = new Set<string>();
+  return value
+    .split(",")
+    .map((address) => address.trim())
+    .filter((address) => {
+      const key = address.toLowerCase();
+      if (!address || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
@@ -0,0 +1,260 @@
+import { prisma } from "@/lib/prisma";
+import {
+  calculateProtocolMetrics,
+  calculateTokenMetrics,
+  filterIncomingInternalTransactions,
+  generateTransactionHistory,
+} from "@/lib/metrics";
+import { loadStoredTransactions } from "@/lib/transactions";
+import { loadStoredInternalTransactions } from "@/lib/internalTransactions";
+import { loadStoredTokenTransfers } from "@/lib/tokenTransfers";
+import { loadContractLabels } from "@/lib/contractLabels";
+import { getScoreBreakdown, UserScore } from "@/lib/scoring";
+import { getScoringConfig } from "@/lib/scoringConfig";
+import { parseRiskReasons } from "@/lib/sybil";
+import { parseNFTValuation } from "@/lib/nftValuation";
+import { getNFTValueHistory } from "@/lib/nftHistory";
+import { getLaunchDate } from "@/lib/utils";
+import { WalletStats } from "@/types";
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * A wallet's standing on the leaderboard
+ */
+export interface WalletRanking {
+  rank: number;
+  totalUsers: number;
+  topPercent: number; // e.g. 2.5 means the wallet is in the top 2.5%
+}
+
+/**
+ * Everything needed to render a wallet's profile from stored data
+ */
+export interface WalletProfileData {
+  walletAddress: string;
+  stats: WalletStats;
+  ranking: WalletRanking;
+  scoreBreakdown: ReturnType<typeof getScoreBreakdown>;
+  lastUpdated: string;
+}
+
+/**
+ * A wallet's headline stats and recent activity, enough to draw its share
+ * card
+ */
+export interface WalletCardData {
+  totalScore: number;
+  isDay1User: boolean;
+  longestStreak: number;
+  ranking: WalletRanking;
+  /** Successful transactions per UTC day up to the last active day */
+  dailyTransactions: number[];
+}
+
+/**
+ * Place a wallet on the leaderboard by its stored total score
+ * @param user - Stored score and farming flag
+ * @returns Rank among unflagged wallets
+ */
+async function getWalletRanking(user: {
+  totalScore: number;
+  isFlagged: boolean;
+}): Promise<WalletRanking> {
+  const [higherScoreCount, rankedUsers] = await Promise.all([
+    prisma.user.count({
+      where: { isFlagged: false, totalScore: { gt: user.totalScore } },
+    }),
+    prisma.user.count({ where: { isFlagged: false } }),
+  ]);
+
+  // Flagged wallets aren't ranked, so place them among the ranked wallets
+  const rank = higherScoreCount + 1;
+  const totalUsers = rankedUsers + (user.isFlagged ? 1 : 0);
+
+  return {
+    rank,
+    totalUsers,
+    topPercent: Math.round((rank / totalUsers) * 1000) / 10,
+  };
+}
+
+/**
+ * Load a wallet's profile from the database without calling any chain APIs
+ * @param walletAddress - Wallet address (case-insensitive)
+ * @returns Wallet profile, or null if the wallet hasn't been checked yet
+ */
+export async function getWalletProfile(
+  walletAddress: string
+): Promise<WalletProfileData | null> {
+  const user = await prisma.user.findFirst({
+    where: { walletAddress: { equals: walletAddress, mode: "insensitive" } },
+  });
+
+  if (!user) return null;
+
+  const [
+    ranking,
+    storedTransactions,
+    storedInternalTransactions,
+    storedTokenTransfers,
+    contractLabels,
+    scoringConfig,
+    nftValueHistory,
+  ] = await Promise.all([
+    getWalletRanking(user),
+    loadStoredTransactions(user.id),
+    loadStoredInternalTransactions(user.id),
+    loadStoredTokenTransfers(user.id),
+    loadContractLabels(),
+    getScoringConfig(user.scoringVersion),
+    getNFTValueHistory(user.id),
+  ]);
+
+  const scores: UserScore = {
+    volumeScore: user.volumeScore,
+    gasScore: user.gasScore,
+    transactionScore: user.transactionScore,
+    nftScore: user.nftScore,
+    daysActiveScore: user.daysActiveScore,
+    streakScore: user.streakScore,
+    day1BonusScore: user.day1BonusScore,
+    tokenScore: user.tokenScore,
+    protocolScore: user.protocolScore,
+    counterpartyScore: user.counterpartyScore,
+    contractScore: user.contractScore,
+    deploymentScore: user.deploymentScore,
+    totalScore: user.totalScore,
+  };
+
+  return {
+    walletAddress: user.walletAddress,
+    stats: {
+      txCount: user.txCount,
+      gasSpentMON: user.gasSpentMON,
+      totalVolume: user.totalVolume,
+      gasSpentWei: user.gasSpentWei,
+      totalVolumeWei: user.totalVolumeWei,
+      sentVolume: user.sentVolume,
+      receivedVolume: user.receivedVolume,
+      netVolume: user.netVolume,
+      sentVolumeWei: user.sentVolumeWei,
+      receivedVolumeWei: user.receivedVolumeWei,
+      failedTxCount: user.failedTxCount,
+      failedGasSpentMON: user.failedGasSpentMON,
+      failedGasSpentWei: user.failedGasSpentWei,
+      tokenTransferCount: user.tokenTransferCount,
+      uniqueTokens: user.uniqueTokens,
+      topTokens: calculateTokenMetrics(storedTokenTransfers).topTokens,
+      protocols: calculateProtocolMetrics(storedTransactions, contractLabels)
+        .protocols,
+      distinctProtocols: user.distinctProtocols,
+      uniqueCounterparties: user.uniqueCounterparties,
+      uniqueContracts: user.uniqueContracts,
+      contractsDeployed: user.contractsDeployed,
+      riskScore: user.riskScore,
+      riskReasons: parseRiskReasons(user.riskReasons),
+      isFlagged: user.isFlagged,
+      nftBagValue: user.nftBagValue,
+      nftValuation: parseNFTValuation(
+        user.nftValuationStrategy,
+        user.nftErc1155Discount
+      ),
+      nftValidationVersion: user.nftValidationVersion ?? undefined,
+      nftValueHistory,
+      isDay1User: user.isDay1User,
+      longestStreak: user.longestStreak,
+      daysActive: user.daysActive,
+      transactionHistory: generateTransactionHistory(
+        storedTransactions,
+        [user.walletAddress],
+        filterIncomingInternalTransactions(storedInternalTransactions, [
+          user.walletAddress,
+        ])
+      ),
+      userPosition: ranking.rank,
+      scores,
+      scoringVersion: scoringConfig.version,
+      scoreWeights: scoringConfig.weights,
+      totalUsers: ranking.totalUsers,
+    },
+    ranking,
+    scoreBreakdown: getScoreBreakdown(scores, scoringConfig.weights),
+    lastUpdated: user.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Load the few stored values a wallet's share card shows, without loading
+ * its full transaction history
+ * @param walletAddress - Wallet address (case-insensitive)
+ * @param days - Number of days of activity to load, ending at the wallet's
+ * last active day
+ * @returns Card data, or null if the wallet hasn't been checked yet
+ */
+export async function getWalletCardData(
+  walletAddress: string,
+  days: number
+): Promise<WalletCardData | null> {
+  const user = await prisma.user.findFirst({
+    where: { walletAddress: { equals: walletAddress, mode: "insensitive" } },
+    select: {
+      id: true,
+      totalScore: true,
+      isDay1User: true,
+      longestStreak: true,
+      isFlagged: true,
+    },
+  });
+
+  if (!user) return null;
+
+  // Same transactions as the profile's history: successful, after launch
+  const counted = {
+    userId: user.id,
+    isError: false,
+    timeStamp: { gte: getLaunchDate() },
+  };
+  const [ranking, latest] = await Promise.all([
+    getWalletRanking(user),
+    prisma.transaction.findFirst({
+      where: counted,
+      orderBy: { timeStamp: "desc" },
+      select: { timeStamp: true },
+    }),
+  ]);
+
+  const dailyTransactions: number[] = [];
+  if (latest) {
+    const lastDay = Math.floor(latest.timeStamp / DAY_SECONDS);
+    const recent = await prisma.transaction.findMany({
+      where: {
+        ...counted,
+        timeStamp: {
+          gte: Math.max(getLaunchDate(), (lastDay - days + 1) * DAY_SECONDS),
+        },
+      },
+      select: { timeStamp: true },
+    });
+
+    const counts = new Map<number, number>();
+    recent.forEach(({ timeStamp }) => {
+      const day = Math.floor(timeStamp / DAY_SECONDS);
+      counts.set(day, (counts.get(day) || 0) + 1);
+    });
+
+    // Start at the first active day, like the profile's history
+    const firstDay = Math.min(...Array.from(counts.keys()));
+    for (let day = firstDay; day <= lastDay; day++) {
+      dailyTransactions.push(counts.get(day) || 0);
+    }
+  }
+
+  return {
+    totalScore: user.totalScore,
+    isDay1User: user.isDay1User,
+    longestStreak: user.longestStreak,
+    ranking,
+    dailyTransactions,
+  };
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { getGasCostWei, toWei, weiToMON } from "@/lib/wei";
+
+describe("toWei", () => {
+  it("parses decimal and hex strings exactly", () => {
+    expect(toWei("123456789012345678901234567890")).toBe(
+      BigInt("123456789012345678901234567890")
+    );
+    expect(toWei("0x10")).toBe(BigInt(16));
+  });
+
+  it("returns 0 for missing or malformed values", () => {
+    expect(toWei("")).toBe(BigInt(0));
+    expect(toWei(undefined)).toBe(BigInt(0));
+    expect(toWei(null)).toBe(BigInt(0));
+    expect(toWei("1.5")).toBe(BigInt(0));
+  });
+});
+
+describe("weiToMON", () => {
+  it("converts whole and fractional MON", () => {
+    expect(weiToMON(BigInt("1500000000000000000"))).toBe(1.5);
+    expect(weiToMON(BigInt(1))).toBe(1e-18);
+  });
+
+  it("converts amounts far above 2^53 wei", () => {
+    expect(weiToMON(BigInt("123456789000000000000000000"))).toBe(123456789);
+  });
+});
+
+describe("getGasCostWei", () => {
+  const tx = {
+    gas: "100000",
+    gasPrice: "2000000000",
+  };
+
+  it("uses gasUsed and the effective gas price when available", () => {
+    expect(
+      getGasCostWei({
+        ...tx,
+        gasUsed: "21000",
+        effectiveGasPrice: "1500000000",
+      })
+    ).toBe(BigInt(21000) * BigInt(1500000000));
+  });
+
+  it("falls back to gasPrice without an effective price", () => {
+    expect(getGasCostWei({ ...tx, gasUsed: "21000" })).toBe(
+      BigInt(21000) * BigInt(2000000000)
+    );
+  });
+
+  it("falls back to the gas limit without gasUsed", () => {
+    expect(getGasCostWei(tx)).toBe(BigInt(100000) * BigInt(2000000000));
+  });
+
+  it("multiplies without overflow", () => {
+    expect(
+      getGasCostWei({
+        gas: "30000000",
+        gasUsed: "30000000",
+        gasPrice: "900000000000000000",
+      })
+    ).toBe(BigInt("27000000000000000000000000"));
+  });
+});
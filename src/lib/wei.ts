@@ -0,0 +1,44 @@
+const WEI_PER_MON = BigInt("1000000000000000000");
+
+/**
+ * Parse a wei amount from an API string without losing precision
+ * @param value - Decimal or 0x-prefixed hex wei string
+ * @returns Wei amount, or 0 for missing or malformed values
+ */
+export function toWei(value: string | null | undefined): bigint {
+  if (!value) return BigInt(0);
+
+  try {
+    return BigInt(value);
+  } catch {
+    return BigInt(0);
+  }
+}
+
+/**
+ * Convert a wei amount to MON for display and scoring
+ * The whole and fractional parts are converted separately so large
+ * amounts keep full precision in the integer part.
+ * @param wei - Wei amount
+ * @returns Amount in MON
+ */
+export function weiToMON(wei: bigint): number {
+  const whole = wei / WEI_PER_MON;
+  const fraction = wei % WEI_PER_MON;
+
+  return Number(whole) + Number(fraction) / 1e18;
+}
+
+/**
+ * Calculate the gas fee actually paid for a transaction
+ * Uses gasUsed and the effective gas price when the provider returns them,
+ * falling back to the gas limit and gasPrice otherwise.
+ * @param tx - Etherscan-shaped transaction
+ * @returns Gas fee in wei
+ */
+export function getGasCostWei(tx: Record<string, string>): bigint {
+  const gasUsed = toWei(tx.gasUsed || tx.gas);
+  const gasPrice = toWei(tx.effectiveGasPrice || tx.gasPrice);
+
+  return gasUsed * gasPrice;
+}
@@ -1,3 +1,6 @@
+import type { ScoringWeights } from "@/lib/scoring";
+import type { NFTValuationConfig } from "@/lib/nftValuation";
+
 /**
  * Transaction data point for charts
  */
@@ -8,6 +11,114 @@ export interface TransactionDataPoint {
   gasSpent: number;
 }
 
+/**
+ * NFT bag value from a daily holdings snapshot, for charts
+ */
+export interface NFTValueDataPoint {
+  date: string;
+  value: number;
+}
+
+/**
+ * Rank movement since earlier daily snapshots. Positive values mean the
+ * wallet moved up the leaderboard; null means there is no snapshot to
+ * compare against.
+ */
+export interface RankChange {
+  day: number | null;
+  week: number | null;
+}
+
+/**
+ * Transfer activity for a single ERC-20 token
+ */
+export interface TokenActivity {
+  contractAddress: string;
+  symbol: string;
+  name: string;
+  transferCount: number;
+}
+
+/**
+ * Price used to value NFT holdings: the 1, 7 or 30-day floor sale, the
+ * lowest listing, the best collection bid, or the floor sales averaged by
+ * the volume in each window
+ */
+export type NFTValuationStrategy =
+  | "floorSale1d"
+  | "floorSale7d"
+  | "floorSale30d"
+  | "floorAsk"
+  | "topBid"
+  | "volumeWeighted";
+
+/**
+ * Admin-managed list an NFT collection is on: allowed collections skip the
+ * validation thresholds, denied collections are never valued
+ */
+export type NFTCollectionListType = "allow" | "deny";
+
+/**
+ * A wallet's holdings in one NFT collection and how they were valued
+ */
+export interface NFTCollectionHolding {
+  contractAddress: string;
+  name: string;
+  image: string | null;
+  heldCount: number;
+  /** Per-token price from the valuation strategy, in MON */
+  unitPrice: number;
+  /** Value counted toward the bag value, 0 if rejected */
+  value: number;
+  isRejected: boolean;
+  rejectionReason?: string;
+  /** NFT validation version that accepted or rejected the collection */
+  validationVersion: number;
+  /** Admin list the collection is on, if any */
+  listType?: NFTCollectionListType;
+}
+
+/**
+ * Kind of protocol a labelled contract belongs to
+ */
+export type ContractCategory =
+  | "dex"
+  | "nft_marketplace"
+  | "bridge"
+  | "lending"
+  | "game"
+  | "other";
+
+/**
+ * A wallet's activity with one labelled protocol
+ */
+export interface ProtocolActivity {
+  protocol: string;
+  category: ContractCategory;
+  txCount: number;
+  gasSpentMON: number;
+}
+
+/**
+ * Transaction farming heuristic that contributed to a wallet's risk score
+ */
+export type SybilReasonCode =
+  | "self_transfers"
+  | "fixed_intervals"
+  | "repeated_pattern"
+  | "dust_spam"
+  | "funding_cluster";
+
+/**
+ * Why a wallet looks like a farming or sybil wallet
+ */
+export interface SybilReason {
+  code: SybilReasonCode;
+  description: string;
+  /** Points added to the risk score */
+  points: number;
+}
+
 /**
  * Wallet statistics data structure
  */
@@ -15,9 +126,47 @@ export interface WalletStats {
   txCount: number;
   gasSpentMON: number;
   totalVolume: number;
+  /** Exact wei amounts behind gasSpentMON and totalVolume */
+  gasSpentWei?: string;
+  totalVolumeWei?: string;
+  /** Volume sent out of and received by the wallet, and the net flow in */
+  sentVolume?: number;
+  receivedVolume?: number;
+  netVolume?: number;
+  sentVolumeWei?: string;
+  receivedVolumeWei?: string;
+  /** Reverted transactions, excluded from the metrics above except gas */
+  failedTxCount?: number;
+  failedGasSpentMON?: number;
+  failedGasSpentWei?: string;
+  /** ERC-20 token transfer activity */
+  tokenTransferCount?: number;
+  uniqueTokens?: number;
+  topTokens?: TokenActivity[];
+  /** Activity per labelled protocol, most used first */
+  protocols?: ProtocolActivity[];
+  distinctProtocols?: number;
+  /** Addresses and contracts interacted with, and contracts deployed */
+  uniqueCounterparties?: number;
+  uniqueContracts?: number;
+  contractsDeployed?: number;
+  /** Farming risk, 0-100; flagged wallets are hidden from the leaderboard */
+  riskScore?: number;
+  riskReasons?: SybilReason[];
+  isFlagged?: boolean;
   nftBagValue: number;
+  /** Per-collection NFT valuation, most valuable first */
+  nftHoldings?: NFTCollectionHolding[];
+  /** How nftBagValue was priced */
+  nftValuation?: NFTValuationConfig;
+  /** NFT validation version nftBagValue was checked against */
+  nftValidationVersion?: number;
+  /** Daily NFT bag value snapshots, oldest first */
+  nftValueHistory?: NFTValueDataPoint[];
   isDay1User: boolean;
   longestStreak: number;
+  /** Distinct UTC days with a successful transaction */
+  daysActive?: number;
   transactionHistory: TransactionDataPoint[];
   userPosition?: number;
   scores?: {
@@ -28,11 +177,30 @@ export interface WalletStats {
     daysActiveScore: number;
     streakScore: number;
     day1BonusScore: number;
+    tokenScore: number;
+    protocolScore: number;
+    counterpartyScore: number;
+    contractScore: number;
+    deploymentScore: number;
     totalScore: number;
   };
+  scoringVersion?: number;
+  scoreWeights?: ScoringWeights;
   totalUsers?: number;
 }
 
+/**
+ * Combined statistics for a group of wallets owned by the same person
+ */
+export interface PortfolioStats extends WalletStats {
+  wallets: string[];
+  daysActive: number;
+  /** Transfers between wallets in the portfolio, counted once */
+  internalTransfers: number;
+  /** Wallets whose NFT holdings couldn't be fetched, so nftBagValue is partial */
+  nftUnavailableWallets: string[];
+}
+
 /**
  * Etherscan transaction response
  */
@@ -43,6 +211,44 @@ export interface EtherscanTx {
   value: string;
   gas: string;
   gasPrice: string;
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  isError?: string; // "1" if the transaction reverted
+  txreceipt_status?: string; // "0" if the receipt reports failure
+  input?: string; // Call data, "0x" for plain transfers
+  methodId?: string; // First four bytes of the call data
+  contractAddress?: string; // Contract created by a deployment
+  timeStamp: string;
+  blockNumber: string;
+}
+
+/**
+ * Etherscan ERC-20 token transfer (tokentx) response item
+ */
+export interface EtherscanTokenTx {
+  hash: string;
+  from: string;
+  to: string;
+  value: string; // Raw amount in the token's smallest unit
+  contractAddress: string;
+  tokenName: string;
+  tokenSymbol: string;
+  tokenDecimal: string;
+  logIndex?: string; // Not returned by every provider
+  timeStamp: string;
+  blockNumber: string;
+}
+
+/**
+ * Etherscan internal transaction (txlistinternal) response item
+ */
+export interface EtherscanInternalTx {
+  hash: string; // Hash of the parent transaction
+  from: string;
+  to: string;
+  value: string;
+  traceId?: string; // Position in the call trace, e.g. "0_1"
+  isError?: string; // "1" if the call reverted
   timeStamp: string;
   blockNumber: string;
 }
@@ -50,10 +256,11 @@ export interface EtherscanTx {
 /**
  * Etherscan API response
  */
-export interface EtherscanResponse {
+export interface EtherscanResponse<T = EtherscanTx> {
   status: string;
   message: string;
-  result: EtherscanTx[];
+  /** Results, or an error detail such as "Max rate limit reached" */
+  result: T[] | string;
 }
 
 /**
@@ -129,6 +336,7 @@ export interface MagicEdenCollection {
     volume: MagicEdenVolume;
     volumeChange: MagicEdenVolumeChange;
     floorSale: MagicEdenFloorSale;
+    topBidValue?: number | null; // Only present with includeTopBid=true
     contractKind: 'erc721' | 'erc1155'; // This is very useful for our validation!
   };
   ownership: {